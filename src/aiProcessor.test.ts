@@ -5,20 +5,29 @@ import {
 } from './aiProcessor.js'; // Import named export and type
 // Use the Vercel AI SDK generateObject
 import * as aiSDK from 'ai';
-import { type Change } from 'diff';
+import { type DiffOperation } from './comparer.js';
 // Import z from 'zod' if needed for constructing test data or assertions
 // import { z } from 'zod';
 
 // --- Mocks ---
 
 // Mock the config - provide necessary fields used by aiProcessor
-vi.mock('./config.js', () => ({
+// Hoisted so tests that override the config with vi.doMock can restore it afterwards
+const defaultConfigMock = vi.hoisted(() => ({
   config: {
-    openaiApiKey: 'TEST_API_KEY', // Provide a dummy key
-    openaiModelName: 'gpt-4o-mini-test', // Provide a model name
+    ai: { provider: 'openai', model: 'gpt-4o-mini-test', apiKey: 'TEST_API_KEY' }, // Provide a dummy key and model name
+    aiChunking: { maxTokens: 4000, maxChunks: 8 },
+    aiCacheTtlMs: 60_000,
     openaiCustomPromptContext: undefined, // Default to undefined
   },
 }));
+vi.mock('./config.js', () => defaultConfigMock);
+
+// Hoisted so the aiProcessor re-imported after vi.resetModules logs to the same mocks
+const { logger } = vi.hoisted(() => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock('./logger.js', () => ({ logger }));
 
 // Mock the Vercel AI SDK generateObject function
 vi.mock('ai', async (importOriginal) => {
@@ -36,7 +45,7 @@ const mockedGenerateObject = vi.mocked(aiSDK.generateObject);
 
 // Mock the @ai-sdk/openai provider factory
 vi.mock('@ai-sdk/openai', () => ({
-  openai: vi.fn().mockImplementation((modelName: string) => ({
+  createOpenAI: vi.fn(() => (modelName: string) => ({
     // Mock the structure expected by generateObject based on the provider usage
     id: modelName || 'mock-model-id', // Use provided name or a default
     provider: 'openai',
@@ -65,23 +74,21 @@ function createMockGenerateObjectResult(
   } as any; // Use 'as any' for simplicity if exact deep type matching is complex/brittle for mocks
 }
 
+// Helper to create a summary with no severity, headline, highlights or tags unless given
+function createSummary(
+  isWorthToReport: boolean,
+  reportedChanges: string,
+  details: Partial<ChangeSummaryResult> = {},
+): ChangeSummaryResult {
+  return { isWorthToReport, reportedChanges, severity: 'info', title: '', highlights: [], tags: [], ...details };
+}
+
 // --- Test Suite ---
 
 describe('aiProcessor', () => {
-  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
-  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
-
-  // Define sample changes conforming to 'diff' library structure
-  const sampleChangesBasic: Change[] = [
-    { count: 1, value: '{\\n  "name": "old name",\\n', removed: true, added: false },
-    { count: 1, value: '{\\n  "name": "new name",\\n', added: true, removed: false },
-    { count: 1, value: '  "value": 1\\n}', added: false, removed: false } // Unchanged part
-  ];
-
-  // Changes filtered by generateChangeSummary
-  const sampleChangesFiltered: Change[] = [
-    { count: 1, value: '{\\n  "name": "old name",\\n', removed: true, added: false },
-    { count: 1, value: '{\\n  "name": "new name",\\n', added: true, removed: false },
+  // Define sample changes as produced by compareJson
+  const sampleChangesBasic: DiffOperation[] = [
+    { op: 'changed', path: '/name', oldValue: 'old name', newValue: 'new name' },
   ];
 
 
@@ -91,9 +98,6 @@ describe('aiProcessor', () => {
     mockedGenerateObject.mockReset();
     // REMOVED: mockedOpenaiProvider.mockClear(); // Clear calls to the provider factory - clearAllMocks should handle this
 
-    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
-    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-
     // Reset config mock potentially modified by doMock
     // This ensures each test starts with the default mock defined above
     vi.resetModules();
@@ -107,35 +111,22 @@ describe('aiProcessor', () => {
 
 
   describe('generateChangeSummary', () => {
-    it('should return default result for empty or no effective changes', async () => {
-        const emptyChanges: Change[] = [];
-        const noEffectiveChanges: Change[] = [
-            { count: 1, value: '  "value": 1\\n}', added: false, removed: false }
-        ];
-        const expectedResult: ChangeSummaryResult = {
-            isWorthToReport: false,
-            reportedChanges: 'No changes detected.',
-        };
+    it('should return default result for empty changes', async () => {
+        const emptyChanges: DiffOperation[] = [];
+        const expectedResult = createSummary(false, 'No changes detected.');
 
         const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
 
-        let summary = await generateSummaryFunc(emptyChanges);
-        expect(summary).toEqual(expectedResult);
-        expect(mockedGenerateObject).not.toHaveBeenCalled();
-
-        summary = await generateSummaryFunc(noEffectiveChanges);
+        const summary = await generateSummaryFunc(emptyChanges);
         expect(summary).toEqual(expectedResult);
         expect(mockedGenerateObject).not.toHaveBeenCalled();
-        expect(consoleLogSpy).not.toHaveBeenCalledWith('Generating summary and evaluating changes...');
+        expect(logger.info).not.toHaveBeenCalledWith('Generating summary and evaluating changes...');
     });
 
 
     it.skip('should call generateObject with formatted diff, schema, and default system prompt when no custom context', async () => {
       const expectedAiSummary = 'Name changed from old to new.';
-      const expectedResult: ChangeSummaryResult = {
-        isWorthToReport: true, // Default true when no custom context
-        reportedChanges: expectedAiSummary,
-      };
+      const expectedResult = createSummary(true, expectedAiSummary);
       // Mock generateObject to resolve successfully
       mockedGenerateObject.mockResolvedValue(
         createMockGenerateObjectResult(expectedResult)
@@ -148,8 +139,8 @@ describe('aiProcessor', () => {
       const summary = await generateSummaryFunc(sampleChangesBasic);
 
       expect(summary).toEqual(expectedResult);
-      expect(consoleLogSpy).toHaveBeenCalledWith('Generating summary and evaluating changes...');
-      expect(consoleLogSpy).toHaveBeenCalledWith('Successfully generated structured summary from AI.');
+      expect(logger.info).toHaveBeenCalledWith('Generating summary and evaluating changes...');
+      expect(logger.info).toHaveBeenCalledWith('Successfully generated structured summary from AI.');
       expect(mockedGenerateObject).toHaveBeenCalledTimes(1);
 
       // Extract arguments passed to the mocked generateObject
@@ -175,9 +166,7 @@ describe('aiProcessor', () => {
       // Define with string concatenation and literal newlines
       const expectedUserPrompt =
         'Detected changes:\n\n' +
-        '[REMOVED] {\n  "name": "old name",\n\n' +
-        '---\n' +
-        '[ADDED] {\n  "name": "new name",\n\n';
+        '[CHANGED] /name: "old name" -> "new name"\n';
 
       expect(callArgs.messages[1]?.role).toBe('user');
       expect(callArgs.messages[1]?.content).toBe(expectedUserPrompt);
@@ -186,12 +175,13 @@ describe('aiProcessor', () => {
       // We can't directly assert calls on the provider factory mock easily without a handle,
       // but we can check the result passed to generateObject
       // expect(mockedOpenaiProvider).toHaveBeenCalledWith(defaultConfig.openaiModelName);
-      expect(callArgs.model).toEqual(expect.objectContaining({ id: defaultConfig.openaiModelName, provider: 'openai' }));
+      expect(callArgs.model).toEqual(expect.objectContaining({ id: defaultConfig.ai?.model, provider: 'openai' }));
 
       // Check Schema and Temperature
       expect((callArgs as any).schema).toBeDefined(); // Check schema presence
       expect((callArgs as any).schema.shape.isWorthToReport).toBeDefined(); // Check a known field
       expect((callArgs as any).schema.shape.reportedChanges).toBeDefined();
+      expect((callArgs as any).schema.shape.severity).toBeDefined();
       expect(callArgs.temperature).toBe(0.2);
       expect(callArgs.mode).toBe('json');
     });
@@ -199,16 +189,14 @@ describe('aiProcessor', () => {
     it('should call generateObject with custom system prompt when custom context is provided', async () => {
         const customContext = 'Only report changes to the "name" field.';
         const expectedAiSummary = 'Name field was updated.';
-        const expectedResult: ChangeSummaryResult = {
-          isWorthToReport: true, // Assume AI determines this based on context
-          reportedChanges: expectedAiSummary,
-        };
+        const expectedResult = createSummary(true, expectedAiSummary);
 
         // Mock config *specifically* for this test
         vi.doMock('./config.js', () => ({
             config: {
-              openaiApiKey: 'TEST_API_KEY_CUSTOM',
-              openaiModelName: 'gpt-4o-mini-custom',
+              ai: { provider: 'openai', model: 'gpt-4o-mini-custom', apiKey: 'TEST_API_KEY_CUSTOM' },
+              aiChunking: { maxTokens: 4000, maxChunks: 8 },
+              aiCacheTtlMs: 60_000,
               openaiCustomPromptContext: customContext,
             },
         }));
@@ -240,18 +228,21 @@ describe('aiProcessor', () => {
         expect(callArgs.messages[0]?.role).toBe('system');
         expect(callArgs.messages[0]?.content).toContain(expectedSystemPromptCriteria);
         expect(callArgs.messages[0]?.content).not.toContain('Since no specific reporting criteria are provided'); // Should not be present
+        // The prompt is only dumped at the debug level
+        expect(logger.debug).toHaveBeenCalledWith(expect.stringContaining(expectedSystemPromptCriteria));
+        expect(logger.info).not.toHaveBeenCalledWith(expect.stringContaining('Using System Prompt'));
 
         // Check Model (using the custom mocked provider and config)
         // expect(mockedOpenaiProvider).toHaveBeenCalledWith(mockedConfig.openaiModelName);
-        expect(callArgs.model).toEqual(expect.objectContaining({ id: mockedConfig.openaiModelName, provider: 'openai' }));
+        expect(callArgs.model).toEqual(expect.objectContaining({ id: mockedConfig.ai?.model, provider: 'openai' }));
 
 
-        // Cleanup the specific config mock
-        vi.doUnmock('./config.js');
+        // Restore the default config mock (vi.doUnmock would drop the mock entirely)
+        vi.doMock('./config.js', () => defaultConfigMock);
     });
 
 
-    it('should handle errors from generateObject', async () => {
+    it('should fall back to a summary of the diff on errors from generateObject', async () => {
       const error = new Error('AI service failed');
       // Mock generateObject to reject
       mockedGenerateObject.mockRejectedValue(error);
@@ -259,16 +250,41 @@ describe('aiProcessor', () => {
       // Import normally (should use default mocks)
       const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
 
-      const expectedResult: ChangeSummaryResult = {
-        isWorthToReport: false,
-        reportedChanges: 'Error generating change summary.',
-      };
+      const expectedResult = createSummary(
+        true,
+        'Summary generated from the diff without AI (the AI request failed: AI service failed):\n' +
+        '- name changed "old name" → "new name"',
+        {
+          title: '1 change(s) detected',
+          highlights: [{ path: '/name', before: '"old name"', after: '"new name"' }],
+          tags: ['fallback'],
+        },
+      );
 
       const summary = await generateSummaryFunc(sampleChangesBasic);
 
       expect(summary).toEqual(expectedResult);
       // Check that the *original error object* is logged
-      expect(consoleErrorSpy).toHaveBeenCalledWith('Error generating structured summary from OpenAI:', error);
+      expect(logger.error).toHaveBeenCalledWith(
+        'Error generating structured summary from openai. Falling back to a summary generated from the diff.',
+        { error },
+      );
+    });
+
+    it('should summarize the diff without calling the AI when it is disabled', async () => {
+      vi.doMock('./config.js', () => ({
+        config: { ...defaultConfigMock.config, ai: null },
+      }));
+      vi.resetModules();
+
+      const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
+      const summary = await generateSummaryFunc(sampleChangesBasic);
+
+      expect(summary.isWorthToReport).toBe(true);
+      expect(summary.reportedChanges).toMatch(/^Summary generated from the diff without AI \(AI is disabled\):/);
+      expect(mockedGenerateObject).not.toHaveBeenCalled();
+
+      vi.doMock('./config.js', () => defaultConfigMock);
     });
 
      it('should handle Zod validation errors from AI response', async () => {
@@ -276,7 +292,6 @@ describe('aiProcessor', () => {
             // Missing isWorthToReport
             reportedChanges: 'Summary without evaluation.',
         };
-        const expectedErrorSubstring = 'AI response did not match expected format.';
 
         // Mock generateObject to return a malformed object (within the expected structure)
         mockedGenerateObject.mockResolvedValue({
@@ -290,17 +305,17 @@ describe('aiProcessor', () => {
 
         const summary = await generateSummaryFunc(sampleChangesBasic);
 
-        // Expect the specific error structure returned by the catch block for Zod errors
-        expect(summary.isWorthToReport).toBe(false);
-        expect(summary.reportedChanges).toContain(expectedErrorSubstring);
-        expect(summary.reportedChanges).toContain('Error generating change summary.'); // Includes original default msg
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-            'AI response failed Zod validation:',
-            expect.any(Error) // Zod errors are instances of Error
+        // The changes are still reported, summarized from the diff
+        expect(summary.isWorthToReport).toBe(true);
+        expect(summary.reportedChanges).toContain('without AI (the AI response did not match the expected format)');
+        expect(summary.tags).toEqual(['fallback']);
+        expect(logger.error).toHaveBeenCalledWith(
+            'AI response failed Zod validation.',
+            { error: expect.any(Error) } // Zod errors are instances of Error
         );
-        expect(consoleErrorSpy).toHaveBeenCalledWith(
-            expect.any(String), // First arg is the message prefix
-            expect.objectContaining({
+        expect(logger.error).toHaveBeenCalledWith(
+            expect.any(String), // First arg is the message
+            { error: expect.objectContaining({
                 issues: expect.arrayContaining([
                     expect.objectContaining({
                         code: 'invalid_type',
@@ -308,21 +323,20 @@ describe('aiProcessor', () => {
                         message: 'Required'
                     })
                 ])
-            }) // <-- Fixed: Added missing comma here
+            }) } // <-- Fixed: Added missing comma here
         );
     });
 
-    it.skip('should format diff correctly including separators', async () => {
-      const changesForFormatting: Change[] = [
-        { count: 1, value: '{\\n  "name": "old name",\\n', removed: true, added: false },
-        { count: 1, value: '{\\n  "name": "new name",\\n', added: true, removed: false },
-        // { count: 1, value: '  "value": 1\\n}', added: false, removed: false }, // Unchanged - should be filtered
-        { count: 1, value: '  "extra": null,\\n', added: true, removed: false },
-        { count: 1, value: '  "removedKey": true,\\n', removed: true, added: false },
+    it.skip('should format every operation type with its path and values', async () => {
+      const changesForFormatting: DiffOperation[] = [
+        { op: 'changed', path: '/name', oldValue: 'old name', newValue: 'new name' },
+        { op: 'added', path: '/extra', newValue: null },
+        { op: 'removed', path: '/removedKey', oldValue: true },
+        { op: 'moved', path: '/items/0', from: '/items/2', oldValue: { id: 3 }, newValue: { id: 3 } },
       ];
       // Mock generateObject to resolve
        mockedGenerateObject.mockResolvedValue(
-        createMockGenerateObjectResult({ isWorthToReport: true, reportedChanges: 'Complex changes.' })
+        createMockGenerateObjectResult(createSummary(true, 'Complex changes.'))
       );
 
       const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
@@ -331,13 +345,10 @@ describe('aiProcessor', () => {
       // Define with string concatenation and literal newlines
       const expectedUserPrompt =
         'Detected changes:\n\n' +
-        '[REMOVED] {\n  "name": "old name",\n\n' +
-        '---\n' +
-        '[ADDED] {\n  "name": "new name",\n\n' +
-        '---\n' +
-        '[ADDED] "extra": null,\n\n' +
-        '---\n' +
-        '[REMOVED] "removedKey": true,\n\n';
+        '[CHANGED] /name: "old name" -> "new name"\n' +
+        '[ADDED] /extra: null\n' +
+        '[REMOVED] /removedKey: true\n' +
+        '[MOVED] /items/2 -> /items/0: {"id":3}\n';
 
       const callArgs = mockedGenerateObject.mock.calls[0]?.[0];
       expect(callArgs).toBeDefined();
@@ -347,30 +358,107 @@ describe('aiProcessor', () => {
       expect(callArgs.messages[1]?.content).toBe(expectedUserPrompt);
     });
 
-    // Add test for diff truncation if needed
-    it('should truncate long diffs', async () => {
-        const longValue = 'a'.repeat(4000);
-        const longChanges: Change[] = [
-            { count: 1, value: `"${longValue}"`, added: true, removed: false }
+    it('should truncate a single change over the token budget', async () => {
+        const longChanges: DiffOperation[] = [
+            { op: 'added', path: '/long', newValue: 'lorem ipsum '.repeat(5000) }
         ];
-        // Match the exact marker used in aiProcessor.ts
-        const expectedTruncatedMarker = '\n... [diff truncated] ...';
 
         mockedGenerateObject.mockResolvedValue(
-            createMockGenerateObjectResult({ isWorthToReport: true, reportedChanges: 'Long change.' })
+            createMockGenerateObjectResult(createSummary(true, 'Long change.'))
         );
 
         const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
         await generateSummaryFunc(longChanges);
 
-        const callArgs = mockedGenerateObject.mock.calls[0]?.[0];
-        expect(callArgs).toBeDefined();
-        if (!callArgs || !callArgs.messages) return;
+        expect(mockedGenerateObject).toHaveBeenCalledTimes(1);
+        const userPrompt = mockedGenerateObject.mock.calls[0]?.[0].messages?.[1]?.content as string;
+        expect(userPrompt.length).toBeLessThan(30000); // Ensure it's actually truncated
+        expect(userPrompt).toContain('[ADDED] /long');
+        expect(userPrompt).toContain('... [truncated]');
+    });
+
+    it('should summarize large diffs in chunks and merge the results', async () => {
+        // About 2,000 tokens per group, so every group needs a chunk of its own
+        const group = (name: string) => Array.from({ length: 150 }, (_, index): DiffOperation => (
+            { op: 'changed', path: `/${name}/${index}/price`, oldValue: index, newValue: index + 1 }
+        ));
+        const largeChanges = [...group('books'), ...group('games'), ...group('music')];
+
+        mockedGenerateObject
+            .mockResolvedValueOnce(createMockGenerateObjectResult(createSummary(false, 'Book prices went up.', { title: 'Books' })))
+            .mockResolvedValueOnce(createMockGenerateObjectResult(createSummary(true, 'Game prices went up.', {
+                severity: 'critical',
+                title: 'Games',
+                highlights: [{ path: '/games/0/price', before: '0', after: '1' }],
+                tags: ['pricing'],
+            })))
+            .mockResolvedValueOnce(createMockGenerateObjectResult(createSummary(false, 'Music prices went up.', { severity: 'minor', title: 'Music' })))
+            .mockResolvedValueOnce(createMockGenerateObjectResult(createSummary(true, 'All prices went up.', { severity: 'major', title: 'Prices up' })));
+
+        const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
+        const summary = await generateSummaryFunc(largeChanges, 'Only report games');
+
+        // The merged severity is raised to the most severe part
+        expect(summary).toEqual(createSummary(true, 'All prices went up.', { severity: 'critical', title: 'Prices up' }));
+        expect(mockedGenerateObject).toHaveBeenCalledTimes(4);
+        const userPrompts = mockedGenerateObject.mock.calls.map(([args]) => args.messages?.[1]?.content as string);
+        expect(userPrompts[0]).toMatch(/^Detected changes \(part 1 of 3\):/);
+        expect(userPrompts[0]).toContain('[CHANGED] /books/149/price: 149 -> 150');
+        expect(userPrompts[0]).not.toContain('/games/');
+        expect(userPrompts[2]).toContain('[CHANGED] /music/0/price: 0 -> 1');
+        // The final pass merges the summaries and votes of the chunks
+        expect(userPrompts[3]).toBe(
+            'Part 1 (worth reporting: no, severity: info): Books\nBook prices went up.\n\n' +
+            'Part 2 (worth reporting: yes, severity: critical): Games\nGame prices went up.\n' +
+            'Highlights:\n- /games/0/price: 0 -> 1\nTags: pricing\n\n' +
+            'Part 3 (worth reporting: no, severity: minor): Music\nMusic prices went up.'
+        );
+        expect(mockedGenerateObject.mock.calls[3]?.[0].messages?.[0]?.content).toContain('CRITERIA FOR SIGNIFICANCE: "Only report games"');
+    });
+
+    it('should reuse the summary of an identical diff from the cache', async () => {
+        mockedGenerateObject.mockResolvedValue(createMockGenerateObjectResult(createSummary(true, 'Name changed.')));
 
-        const userPrompt = callArgs.messages[1]?.content as string;
-        expect(userPrompt.length).toBeLessThan(4000); // Ensure it's actually truncated
-        expect(userPrompt).toContain('[ADDED]');
-        expect(userPrompt.endsWith(expectedTruncatedMarker)).toBe(true);
+        const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
+        const { aiCacheHitsTotal } = await import('./metrics.js');
+        const first = await generateSummaryFunc(sampleChangesBasic, 'Only names', 'names');
+        const second = await generateSummaryFunc([{ ...sampleChangesBasic[0] }], 'Only names', 'names');
+
+        expect(second).toEqual(first);
+        expect(mockedGenerateObject).toHaveBeenCalledTimes(1);
+        expect(logger.info).toHaveBeenCalledWith('Reusing the cached summary of an identical diff.');
+        expect((await aiCacheHitsTotal.get()).values).toEqual([expect.objectContaining({ labels: { watch: 'names' }, value: 1 })]);
+
+        // Another prompt context is another summary
+        await generateSummaryFunc(sampleChangesBasic, 'Everything', 'names');
+        expect(mockedGenerateObject).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not cache fallback summaries', async () => {
+        mockedGenerateObject.mockRejectedValueOnce(new Error('AI service failed'));
+        mockedGenerateObject.mockResolvedValueOnce(createMockGenerateObjectResult(createSummary(true, 'Name changed.')));
+
+        const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
+        expect((await generateSummaryFunc(sampleChangesBasic)).tags).toEqual(['fallback']);
+        expect((await generateSummaryFunc(sampleChangesBasic)).reportedChanges).toBe('Name changed.');
+    });
+
+    it('should record the token usage and latency of the watch', async () => {
+        mockedGenerateObject.mockResolvedValue(
+            createMockGenerateObjectResult(createSummary(true, 'Name changed.'))
+        );
+
+        const { generateChangeSummary: generateSummaryFunc } = await import('./aiProcessor.js');
+        const { aiDurationSeconds, aiTokensTotal } = await import('./metrics.js');
+        await generateSummaryFunc(sampleChangesBasic, '', 'prices');
+
+        const tokens = (await aiTokensTotal.get()).values;
+        expect(tokens).toEqual(expect.arrayContaining([
+            expect.objectContaining({ labels: { watch: 'prices', type: 'prompt' }, value: 50 }),
+            expect.objectContaining({ labels: { watch: 'prices', type: 'completion' }, value: 50 }),
+        ]));
+        const count = (await aiDurationSeconds.get()).values.find((value) => value.metricName === 'json_notify_ai_duration_seconds_count');
+        expect(count).toMatchObject({ labels: { watch: 'prices' }, value: 1 });
     });
 
   });
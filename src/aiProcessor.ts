@@ -1,8 +1,23 @@
-import { openai } from '@ai-sdk/openai'; // Use the Vercel AI SDK adapter
 import { CoreMessage, generateObject } from 'ai';
 import { z } from 'zod'; // Added import for zod
-import { type Change } from 'diff';
+import { type DiffOperation } from './comparer.js';
+import { createAiModel, type AiSettings } from './aiProvider.js';
+import { chunkDiffLines, pointerSegments } from './diffChunks.js';
 import { config } from './config.js';
+import { aiCacheHitsTotal, aiDurationSeconds, aiTokensTotal } from './metrics.js';
+import { logger } from './logger.js';
+import { maxSeverity, SEVERITY_LEVELS } from './severity.js';
+import { createTemplateSummary } from './templateSummary.js';
+import { cacheSummary, getCachedSummary, summaryCacheKey } from './summaryCache.js';
+
+// Zod schema for one change the summary points out
+const ChangeHighlightSchema = z.object({
+  path: z.string().describe('The JSON Pointer of the changed field, e.g. /items/3/price.'),
+  before: z.string().optional().describe('The old value as JSON. Omitted for added fields.'),
+  after: z.string().optional().describe('The new value as JSON. Omitted for removed fields.'),
+});
+
+export type ChangeHighlight = z.infer<typeof ChangeHighlightSchema>;
 
 // Zod schema for the expected AI output
 const ChangeSummarySchema = z.object({
@@ -16,130 +31,247 @@ const ChangeSummarySchema = z.object({
     .describe(
       'A concise, human-readable summary of the key changes detected. This should be provided even if isWorthToReport is false.',
     ),
+  severity: z
+    .enum(SEVERITY_LEVELS)
+    .describe('How severe the changes are for the people watching the JSON: info, minor, major or critical.'),
+  title: z.string().describe('A short headline of the changes, at most about 10 words.'),
+  highlights: z
+    .array(ChangeHighlightSchema)
+    .describe('The most important individual changes, at most 5, most important first.'),
+  tags: z.array(z.string()).describe('A few short lowercase tags describing the changes, e.g. "pricing" or "outage".'),
 });
 
 // Define the type for the return value based on the Zod schema
 export type ChangeSummaryResult = z.infer<typeof ChangeSummarySchema>;
 
-// Function to format the diff Change[] array into a readable string
-function formatDiffForAI(changes: Change[]): string {
-  let diffString = 'Detected changes:\n\n';
-  const filteredChanges = changes.filter((part) => part.added || part.removed);
-
-  filteredChanges.forEach((part, index) => {
-    const prefix = part.added ? '[ADDED]' : '[REMOVED]';
-    const content = part.value.trim(); // Use the trimmed raw value directly
+function formatValue(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
 
-    // Simple concatenation
-    diffString += `${prefix} ${content}\n`;
+// Formats one structural diff operation as a line of the diff sent to the AI
+function formatChange(change: DiffOperation): string {
+  switch (change.op) {
+    case 'added':
+      return `[ADDED] ${change.path}: ${formatValue(change.newValue)}`;
+    case 'removed':
+      return `[REMOVED] ${change.path}: ${formatValue(change.oldValue)}`;
+    case 'changed':
+      return `[CHANGED] ${change.path}: ${formatValue(change.oldValue)} -> ${formatValue(change.newValue)}`;
+    case 'moved':
+      return `[MOVED] ${change.from} -> ${change.path}: ${formatValue(change.newValue)}`;
+  }
+}
 
-    if (index < filteredChanges.length - 1) {
-      diffString += '---\n'; // Separator between changes
-    }
+// Thrown when the AI answers with an object that does not match the schema
+function invalidResponseError(details: string): Error & { invalidResponse: true } {
+  return Object.assign(new Error(`AI response did not match expected format. Details: ${details}.`), {
+    invalidResponse: true as const,
   });
-  return diffString;
 }
 
 /**
- * Generates a summary of JSON changes and evaluates their significance using OpenAI.
- * @param changes The diff changes detected.
- * @returns An object containing the evaluation and the AI-generated summary.
+ * Asks the AI for a summary and records its token usage.
+ * @throws If the request fails or the response does not match the schema.
  */
-export async function generateChangeSummary(
-  changes: Change[],
-): Promise<ChangeSummaryResult> { // Updated return type
-  // Define default results for error and no changes scenarios
-  const defaultErrorResult: ChangeSummaryResult = {
-    isWorthToReport: false, // Default to false on error
-    reportedChanges: 'Error generating change summary.',
-  };
-  const defaultNoChangesResult: ChangeSummaryResult = {
-    isWorthToReport: false, // No changes means nothing significant to report
-    reportedChanges: 'No changes detected.',
-  };
+async function requestSummary(
+  ai: AiSettings,
+  systemPrompt: string,
+  userPrompt: string,
+  watchId: string
+): Promise<ChangeSummaryResult> {
+  logger.debug(`Using System Prompt:\n${systemPrompt}`);
+  const messages: CoreMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: userPrompt },
+  ];
 
-  // Filter out changes that are neither added nor removed before checking length
-  const actualChanges = changes.filter(c => c.added || c.removed);
-  if (!actualChanges || actualChanges.length === 0) {
-    return defaultNoChangesResult;
+  const { model, mode } = createAiModel(ai);
+  // Use generateObject with the Zod schema
+  const { object, usage } = await generateObject({ // Changed from generateText
+    model,
+    schema: ChangeSummarySchema, // Provide the Zod schema
+    messages,
+    temperature: 0.2, // Lower temperature for more deterministic summary and evaluation
+    mode, // JSON mode, or a tool call for providers without one
+  });
+  // Providers that do not report usage leave the counts NaN
+  if (Number.isFinite(usage?.promptTokens)) aiTokensTotal.inc({ watch: watchId, type: 'prompt' }, usage.promptTokens);
+  if (Number.isFinite(usage?.completionTokens)) aiTokensTotal.inc({ watch: watchId, type: 'completion' }, usage.completionTokens);
+
+  // Validate the result just in case, though generateObject should handle schema compliance
+  const parsedResult = ChangeSummarySchema.safeParse(object);
+  if (!parsedResult.success) {
+    logger.error('AI response failed Zod validation.', { error: parsedResult.error });
+    throw invalidResponseError(parsedResult.error.message);
   }
+  return parsedResult.data;
+}
 
-  // Use the filtered list for formatting
-  const formattedDiff = formatDiffForAI(actualChanges);
-  const maxDiffLength = 3000; // Limit context sent to AI (consider GPT-4.1's larger context if applicable/needed)
-  const truncatedDiff =
-    formattedDiff.length > maxDiffLength
-      ? formattedDiff.substring(0, maxDiffLength) + '\n... [diff truncated] ...'
-      : formattedDiff;
+// Describes the significance criteria to the AI
+function describeCriteria(customContext: string): string {
+  return customContext
+    ? `CRITERIA FOR SIGNIFICANCE: "${customContext}". Determine if the detected changes meet these criteria. If they do, set \`isWorthToReport\` to true. If they do not, set it to false.`
+    : `Since no specific reporting criteria are provided, consider ANY detected changes significant enough to report. Set \`isWorthToReport\` to true.`;
+}
 
-  console.log('Generating summary and evaluating changes...'); // Updated log message
+const OUTPUT_FORMAT = `Severity levels:
+- info: routine updates nobody needs to act on
+- minor: noticeable changes of little consequence
+- major: changes people should look at soon
+- critical: changes that need immediate action (outages, data loss, breaking changes)
 
-  const customContext = config.openaiCustomPromptContext;
+Output Format:
+Respond ONLY with a valid JSON object matching this schema:
+{
+  "isWorthToReport": boolean, // True if changes are significant based on criteria (or always true if no criteria), false otherwise.
+  "reportedChanges": string, // The concise summary of changes. Provide this summary EVEN IF isWorthToReport is false.
+  "severity": "info" | "minor" | "major" | "critical", // How severe the changes are.
+  "title": string, // A short headline of the changes, at most about 10 words.
+  "highlights": [{ "path": string, "before"?: string, "after"?: string }], // Up to 5 most important changes; before and after are JSON values.
+  "tags": string[] // A few short lowercase tags, e.g. "pricing".
+}
+Do not include any other text, explanations, or markdown formatting outside the JSON object.`;
 
-  // Updated System Prompt incorporating evaluation logic and output structure
-  const systemPrompt = `You are an assistant analyzing changes detected in a JSON object. Your goal is to provide a concise, human-readable summary of these changes and decide if they are significant enough to report based on specific criteria if provided.
+// System prompt for summarizing a diff, or one part of a diff split into `partCount` parts
+function buildDiffPrompt(customContext: string, partCount: number): string {
+  const partNote =
+    partCount > 1
+      ? `\n\nThe diff is too large for one request and was split into ${partCount} parts by JSON path. You are given one part: summarize and evaluate only the changes in it. The summaries of all parts are merged afterwards.`
+      : '';
+  return `You are an assistant analyzing changes detected in a JSON object. Your goal is to provide a concise, human-readable summary of these changes and decide if they are significant enough to report based on specific criteria if provided.${partNote}
 
 Input Diff Format:
-The diff shows changes using [ADDED] for new content and [REMOVED] for deleted content. Sections are separated by '---'.
+Each line is one change to the JSON object. Locations are JSON Pointers (e.g. /items/3/price) and values are JSON:
+- [ADDED] <path>: <new value>
+- [REMOVED] <path>: <old value>
+- [CHANGED] <path>: <old value> -> <new value>
+- [MOVED] <old path> -> <new path>: <value> (an array element that only changed position)
 
 Tasks:
 1.  Analyze the provided diff carefully.
-2.  Generate a concise, human-readable summary focusing on the key changes (\`reportedChanges\`). Ensure this summary is clear and informative.
+2.  Generate a concise, human-readable summary focusing on the key changes (\`reportedChanges\`). Ensure this summary is clear and informative, and name the fields that changed.
 3.  Evaluate if the changes are significant enough to warrant reporting (\`isWorthToReport\`).
-    ${
-      customContext
-        ? `CRITERIA FOR SIGNIFICANCE: "${customContext}". Determine if the detected changes meet these criteria. If they do, set \`isWorthToReport\` to true. If they do not, set it to false.`
-        : `Since no specific reporting criteria are provided, consider ANY detected changes significant enough to report. Set \`isWorthToReport\` to true.`
-    }
+    ${describeCriteria(customContext)}
+4.  Rate the severity of the changes (\`severity\`), write a short headline (\`title\`), point out the most important changes (\`highlights\`) and suggest tags (\`tags\`).
 
-Output Format:
-Respond ONLY with a valid JSON object matching this schema:
-{
-  "isWorthToReport": boolean, // True if changes are significant based on criteria (or always true if no criteria), false otherwise.
-  "reportedChanges": string  // The concise summary of changes. Provide this summary EVEN IF isWorthToReport is false.
+${OUTPUT_FORMAT}`;
 }
-Do not include any other text, explanations, or markdown formatting outside the JSON object.`;
 
+// System prompt for merging the results of the parts of a split diff
+function buildMergePrompt(customContext: string): string {
+  return `You are an assistant merging summaries of changes detected in a JSON object. The diff was too large for one request, so each part of it was summarized and evaluated separately. Each part below is listed with its own verdict on whether it is worth reporting.
 
-  /* v8 ignore next */ // Ignoring console log for coverage
-  console.log(`Using System Prompt:\n${systemPrompt}`); // Log the final prompt for debugging
+Tasks:
+1.  Merge the part summaries into one concise, human-readable summary (\`reportedChanges\`). Keep the names of the fields that changed, leave out repetition, and put the most significant changes first.
+2.  Evaluate if the changes as a whole are significant enough to warrant reporting (\`isWorthToReport\`). A part judged worth reporting usually makes the whole worth reporting.
+    ${describeCriteria(customContext)}
+3.  Rate the severity of the changes as a whole (\`severity\`), which is at least the highest severity of any part. Write one headline for all parts (\`title\`), keep the most important highlights of all parts (\`highlights\`) and merge their tags (\`tags\`).
 
-  const messages: CoreMessage[] = [
-    { role: 'system', content: systemPrompt },
-    { role: 'user', content: truncatedDiff },
+${OUTPUT_FORMAT}`;
+}
+
+// Describes the result of one part of a split diff for the merge request
+function describePart(part: ChangeSummaryResult, index: number): string {
+  const lines = [
+    `Part ${index + 1} (worth reporting: ${part.isWorthToReport ? 'yes' : 'no'}, severity: ${part.severity}): ${part.title}`,
+    part.reportedChanges,
   ];
+  if (part.highlights.length > 0) {
+    lines.push('Highlights:', ...part.highlights.map(({ path, before, after }) => `- ${path}: ${before ?? '(none)'} -> ${after ?? '(none)'}`));
+  }
+  if (part.tags.length > 0) lines.push(`Tags: ${part.tags.join(', ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * Generates a summary of JSON changes and evaluates their significance using the configured AI provider.
+ * A diff over the token budget is split into chunks grouped by JSON path, which are summarized
+ * separately and then merged into one result by a final request. If the AI is disabled or fails,
+ * the changes are summarized from the diff instead and always reported. Summaries of a diff seen
+ * before with the same model and context are reused from the cache until their TTL expires.
+ * @param changes The diff changes detected.
+ * @param customContext Significance criteria of the watch. Defaults to OPENAI_CUSTOM_PROMPT_CONTEXT.
+ * @param watchId The watch the latency and token usage are recorded for.
+ * @returns An object containing the evaluation, the AI-generated summary and headline, the severity,
+ * the highlighted changes and suggested tags.
+ */
+export async function generateChangeSummary(
+  changes: DiffOperation[],
+  customContext: string = config.openaiCustomPromptContext,
+  watchId: string = 'default',
+): Promise<ChangeSummaryResult> { // Updated return type
+  // Define the default result for the no changes scenario
+  const defaultNoChangesResult: ChangeSummaryResult = {
+    isWorthToReport: false, // No changes means nothing significant to report
+    reportedChanges: 'No changes detected.',
+    severity: 'info',
+    title: '',
+    highlights: [],
+    tags: [],
+  };
+
+  if (!changes || changes.length === 0) {
+    return defaultNoChangesResult;
+  }
+  const ai = config.ai;
+  if (!ai) {
+    logger.info('AI is disabled. Summarizing the changes from the diff.');
+    return createTemplateSummary(changes, 'AI is disabled');
+  }
+  // A flapping upstream or a rollback produces the same diff again
+  const cacheKey = summaryCacheKey(changes, ai, customContext);
+  const cached = getCachedSummary(cacheKey);
+  if (cached) {
+    logger.info('Reusing the cached summary of an identical diff.');
+    aiCacheHitsTotal.inc({ watch: watchId });
+    return cached;
+  }
+
+  const { chunks, omitted } = chunkDiffLines(
+    changes.map((change) => ({ path: pointerSegments(change.path), text: formatChange(change) })),
+    config.aiChunking
+  );
+  if (omitted > 0) {
+    logger.warn(`Diff exceeds ${config.aiChunking.maxChunks} chunk(s). ${omitted} change(s) are left out of the summary.`);
+  }
+  const omittedNote = omitted > 0 ? `\n... [${omitted} more change(s) omitted] ...` : '';
+  const formatChunk = (lines: string[], index: number) =>
+    `${chunks.length > 1 ? `Detected changes (part ${index + 1} of ${chunks.length}):` : 'Detected changes:'}\n\n${lines.join('\n')}\n${index === chunks.length - 1 ? omittedNote : ''}`;
 
+  logger.info(`Generating summary and evaluating changes${chunks.length > 1 ? ` in ${chunks.length} chunks` : ''}...`);
+
+  const endTimer = aiDurationSeconds.startTimer({ watch: watchId });
   try {
-    // Use generateObject with the Zod schema
-    const { object } = await generateObject({ // Changed from generateText
-      model: openai(config.openaiModelName as any), // Use model name from config
-      schema: ChangeSummarySchema, // Provide the Zod schema
-      messages,
-      temperature: 0.2, // Lower temperature for more deterministic summary and evaluation
-      mode: 'json', // Explicitly request JSON mode
-    });
-    console.log('Successfully generated structured summary from AI.'); // Updated log message
-
-    // Validate the result just in case, though generateObject should handle schema compliance
-    const parsedResult = ChangeSummarySchema.safeParse(object);
-    if (parsedResult.success) {
-        // Additional check: if the input diff was non-empty but the AI generated an empty summary,
-        // and there's no custom context, should isWorthToReport be false?
-        // Current prompt logic says always true if no custom context and diff exists.
-        // Let's stick to the prompt for now unless specific behavior is desired.
-      return parsedResult.data;
-    } else {
-      console.error('AI response failed Zod validation:', parsedResult.error);
-      // Return a more informative error message within the structure
-       return {
-        ...defaultErrorResult,
-        reportedChanges: `Error: AI response did not match expected format. Details: ${parsedResult.error.message}. ${defaultErrorResult.reportedChanges}`
-       } ;
+    const diffPrompt = buildDiffPrompt(customContext, chunks.length);
+    // Map: every chunk on its own, one after another to stay within rate limits
+    const partResults: ChangeSummaryResult[] = [];
+    for (const [index, lines] of chunks.entries()) {
+      partResults.push(await requestSummary(ai, diffPrompt, formatChunk(lines, index), watchId));
+    }
+    if (partResults.length === 1) {
+      logger.info('Successfully generated structured summary from AI.');
+      cacheSummary(cacheKey, partResults[0], config.aiCacheTtlMs);
+      return partResults[0];
     }
+
+    // Reduce: merge the summaries and significance votes of the chunks
+    const parts = partResults.map(describePart).join('\n\n');
+    const merged = await requestSummary(ai, buildMergePrompt(customContext), parts, watchId);
+    logger.info(`Successfully merged the summaries of ${partResults.length} chunks.`);
+    // A critical part keeps the whole critical, whatever the merge made of it
+    const result = { ...merged, severity: maxSeverity([merged.severity, ...partResults.map((part) => part.severity)]) };
+    cacheSummary(cacheKey, result, config.aiCacheTtlMs);
+    return result;
   } catch (error) {
-    console.error('Error generating structured summary from OpenAI:', error);
-    // Fallback or re-throw based on requirements
-    return defaultErrorResult; // Return default error object
+    // Report the changes from the diff rather than swallowing them
+    if ((error as { invalidResponse?: boolean }).invalidResponse) {
+      logger.warn('Falling back to a summary generated from the diff.');
+      return createTemplateSummary(changes, 'the AI response did not match the expected format');
+    }
+    logger.error(`Error generating structured summary from ${ai.provider}. Falling back to a summary generated from the diff.`, { error });
+    return createTemplateSummary(changes, `the AI request failed: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    endTimer();
   }
 }
 
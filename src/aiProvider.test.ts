@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import http from 'http';
+import { type AddressInfo } from 'net';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { createAiModel } from './aiProvider.js';
+
+describe('createAiModel', () => {
+  let server: http.Server | undefined;
+
+  afterEach(async () => {
+    if (server) await new Promise((resolve) => server!.close(resolve));
+    server = undefined;
+  });
+
+  it('should create the model of every provider', () => {
+    const openai = createAiModel({ provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test' });
+    expect(openai.model).toMatchObject({ provider: 'openai.chat', modelId: 'gpt-4o-mini' });
+    expect(openai.mode).toBe('json');
+
+    const anthropic = createAiModel({ provider: 'anthropic', model: 'claude-3-5-haiku-latest', apiKey: 'sk-ant-test' });
+    expect(anthropic.model).toMatchObject({ provider: 'anthropic.messages', modelId: 'claude-3-5-haiku-latest' });
+    expect(anthropic.mode).toBe('tool'); // Anthropic has no JSON mode
+
+    const ollama = createAiModel({ provider: 'ollama', model: 'llama3.1' });
+    expect(ollama.model).toMatchObject({ provider: 'ollama.chat', modelId: 'llama3.1' });
+  });
+
+  it('should summarize through a local OpenAI-compatible server', async () => {
+    let request: { authorization?: string; body: any } | undefined;
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        request = { authorization: req.headers.authorization, body: JSON.parse(body) };
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          id: 'chatcmpl-1',
+          object: 'chat.completion',
+          created: 0,
+          model: 'local-model',
+          choices: [{
+            index: 0,
+            message: { role: 'assistant', content: '{"isWorthToReport":true,"reportedChanges":"Price went up."}' },
+            finish_reason: 'stop',
+          }],
+          usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 },
+        }));
+      });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+
+    const { model, mode } = createAiModel({ provider: 'openai-compatible', model: 'local-model', baseUrl, apiKey: 'local-key' });
+    const { object, usage } = await generateObject({
+      model,
+      mode,
+      schema: z.object({ isWorthToReport: z.boolean(), reportedChanges: z.string() }),
+      prompt: '[CHANGED] /price: 1 -> 2',
+    });
+
+    expect(object).toEqual({ isWorthToReport: true, reportedChanges: 'Price went up.' });
+    expect(usage).toMatchObject({ promptTokens: 12, completionTokens: 8 });
+    expect(request?.authorization).toBe('Bearer local-key');
+    expect(request?.body).toMatchObject({ model: 'local-model', response_format: { type: 'json_schema' } });
+  });
+});
@@ -0,0 +1,67 @@
+import { createAnthropic } from '@ai-sdk/anthropic';
+import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAICompatible } from '@ai-sdk/openai-compatible';
+import { type LanguageModel } from 'ai';
+
+export const AI_PROVIDERS = ['openai', 'anthropic', 'openai-compatible', 'ollama'] as const;
+
+export type AiProvider = (typeof AI_PROVIDERS)[number];
+
+/**
+ * The model that summarizes changes, and how to reach it.
+ */
+export interface AiSettings {
+  provider: AiProvider;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string; // API root, e.g. http://localhost:1234/v1 for LM Studio
+}
+
+// Models used when AI_MODEL is not set; OpenAI-compatible servers serve whatever they loaded
+export const DEFAULT_AI_MODELS: Record<AiProvider, string | undefined> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+  'openai-compatible': undefined,
+  ollama: 'llama3.1',
+};
+
+// Ollama serves an OpenAI-compatible API next to its own
+export const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+// Environment variable holding the API key of each provider; local servers usually need none
+export const AI_API_KEY_VARS: Record<AiProvider, string> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  'openai-compatible': 'AI_API_KEY',
+  ollama: 'AI_API_KEY',
+};
+
+/**
+ * Creates the language model of the configured provider.
+ * @returns The model, and the mode `generateObject` must use with it: Anthropic has no JSON
+ * mode and returns structured output through a tool call instead.
+ */
+export function createAiModel(settings: AiSettings): { model: LanguageModel; mode: 'json' | 'tool' } {
+  switch (settings.provider) {
+    case 'openai':
+      return {
+        model: createOpenAI({ apiKey: settings.apiKey, baseURL: settings.baseUrl })(settings.model),
+        mode: 'json',
+      };
+    case 'anthropic':
+      return {
+        model: createAnthropic({ apiKey: settings.apiKey, baseURL: settings.baseUrl })(settings.model),
+        mode: 'tool',
+      };
+    case 'openai-compatible':
+    case 'ollama':
+      return {
+        model: createOpenAICompatible({
+          name: settings.provider,
+          baseURL: settings.baseUrl ?? DEFAULT_OLLAMA_BASE_URL,
+          apiKey: settings.apiKey,
+        }).chatModel(settings.model, {}, { supportsStructuredOutputs: true }), // Sends the schema as json_schema
+        mode: 'json',
+      };
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { getBackupFilePath, readJsonFile, writeFileAtomic } from './atomicFile.js';
+
+describe('atomicFile', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-notify-atomic-'));
+    filePath = path.join(dir, 'prices.outbox.json');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should write the file without leaving temporary files behind', async () => {
+    await writeFileAtomic(filePath, '{"a":1}');
+    await writeFileAtomic(filePath, '{"a":2}');
+
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe('{"a":2}');
+    expect(fs.readdirSync(dir)).toEqual(['prices.outbox.json']);
+  });
+
+  it('should keep the previous contents as backup when asked to', async () => {
+    await writeFileAtomic(filePath, '{"a":1}', { backup: true });
+    expect(fs.existsSync(getBackupFilePath(filePath))).toBe(false);
+
+    await writeFileAtomic(filePath, '{"a":2}', { backup: true });
+    expect(fs.readFileSync(getBackupFilePath(filePath), 'utf-8')).toBe('{"a":1}');
+  });
+
+  it('should leave the previous file in place if the write fails', async () => {
+    await writeFileAtomic(filePath, '{"a":1}');
+
+    await expect(writeFileAtomic(path.join(dir, 'missing', 'file.json'), '{}')).rejects.toThrow();
+    expect(fs.readdirSync(dir)).toEqual(['prices.outbox.json']);
+  });
+
+  it('should return the fallback if the file does not exist', async () => {
+    const onRecovery = vi.fn();
+    expect(await readJsonFile(filePath, null, onRecovery)).toBeNull();
+    expect(onRecovery).not.toHaveBeenCalled();
+  });
+
+  it('should quarantine a corrupt file and restore it from the backup', async () => {
+    fs.writeFileSync(getBackupFilePath(filePath), '{"a":1}');
+    fs.writeFileSync(filePath, '{"a":');
+    const onRecovery = vi.fn();
+
+    expect(await readJsonFile(filePath, null, onRecovery)).toEqual({ a: 1 });
+    expect(onRecovery).toHaveBeenCalledWith(expect.stringContaining('Restored it from the backup.'));
+    expect(fs.existsSync(filePath)).toBe(false);
+    expect(fs.readdirSync(dir).filter((file) => file.endsWith('.corrupt'))).toHaveLength(1);
+  });
+
+  it('should return the fallback if a corrupt file has no usable backup', async () => {
+    fs.writeFileSync(filePath, '{"a":');
+    const onRecovery = vi.fn();
+
+    expect(await readJsonFile(filePath, [], onRecovery)).toEqual([]);
+    expect(onRecovery).toHaveBeenCalledWith(expect.stringContaining('has no usable backup. Starting over without it.'));
+  });
+});
@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Returns the path of the rolling backup kept by writeFileAtomic.
+ */
+export function getBackupFilePath(filePath: string): string {
+  return `${filePath}.bak`;
+}
+
+// fsyncs a directory so a rename inside it survives a crash. Not supported on every platform.
+async function syncDirectory(dir: string): Promise<void> {
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(dir, 'r');
+    await handle.sync();
+  } catch {
+    // Windows cannot open directories; the rename is still atomic there
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Writes a file so that readers see either the old or the new contents, never a truncated file:
+ * the data goes to a temporary file in the same directory, is fsynced, and is renamed over the
+ * target. A crash or full disk leaves the previous file in place.
+ * @param filePath The file to write.
+ * @param data The new contents.
+ * @param options backup: copy the previous contents to `<file>.bak` first.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  data: string | Buffer,
+  options: { backup?: boolean } = {}
+): Promise<void> {
+  const tempPath = `${filePath}.${crypto.randomBytes(6).toString('hex')}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(data);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (options.backup) {
+      await fs.copyFile(filePath, getBackupFilePath(filePath)).catch((error) => {
+        if (error.code !== 'ENOENT') throw error; // Nothing to back up on the first write
+      });
+    }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+  await syncDirectory(path.dirname(filePath));
+}
+
+/**
+ * Moves a corrupt file out of the way, so it is kept for inspection but no longer read.
+ * @returns The new path of the file.
+ */
+export async function quarantineFile(filePath: string): Promise<string> {
+  const corruptPath = `${filePath}.${Date.now()}.corrupt`;
+  await fs.rename(filePath, corruptPath);
+  return corruptPath;
+}
+
+/**
+ * Reads a JSON file written by writeFileAtomic. A file that does not parse is quarantined and its
+ * backup is read instead; if the backup is missing or corrupt too, the fallback is returned.
+ * @param filePath The file to read.
+ * @param fallback Returned if the file does not exist or cannot be recovered.
+ * @param onRecovery Called with a description of what was recovered, or lost.
+ */
+export async function readJsonFile<T>(
+  filePath: string,
+  fallback: T,
+  onRecovery: (message: string) => void = () => {}
+): Promise<T> {
+  let data: string;
+  try {
+    data = await fs.readFile(filePath, 'utf-8');
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return fallback;
+    throw error;
+  }
+  try {
+    return JSON.parse(data) as T;
+  } catch (error) {
+    const corruptPath = await quarantineFile(filePath);
+    try {
+      const backup = JSON.parse(await fs.readFile(getBackupFilePath(filePath), 'utf-8')) as T;
+      onRecovery(`${filePath} was corrupt (moved to ${corruptPath}). Restored it from the backup.`);
+      return backup;
+    } catch {
+      onRecovery(`${filePath} was corrupt (moved to ${corruptPath}) and has no usable backup. Starting over without it.`);
+      return fallback;
+    }
+  }
+}
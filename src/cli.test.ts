@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { parseCliArgs } from './cli.js';
+
+describe('parseCliArgs', () => {
+  it('should run the scheduled check without arguments', () => {
+    expect(parseCliArgs([])).toEqual({ command: 'check', once: false, dryRun: false, watchIds: [] });
+  });
+
+  it('should parse check options', () => {
+    expect(parseCliArgs(['check', '--once', '--dry-run', '--watch', 'prices', '--watch', 'releases'])).toEqual({
+      command: 'check',
+      once: true,
+      dryRun: true,
+      watchIds: ['prices', 'releases'],
+    });
+  });
+
+  it('should parse diff with an optional watch', () => {
+    expect(parseCliArgs(['diff', 'a.json', 'b.json'])).toEqual({
+      command: 'diff',
+      fileA: 'a.json',
+      fileB: 'b.json',
+      watchId: undefined,
+    });
+    expect(parseCliArgs(['diff', 'a.json', 'b.json', '--watch', 'prices'])).toMatchObject({ watchId: 'prices' });
+  });
+
+  it('should parse test-notify and help', () => {
+    expect(parseCliArgs(['test-notify', '--watch', 'prices'])).toEqual({ command: 'test-notify', watchIds: ['prices'] });
+    expect(parseCliArgs(['help'])).toEqual({ command: 'help' });
+    expect(parseCliArgs(['diff', '-h'])).toEqual({ command: 'help' });
+  });
+
+  it('should reject invalid usage', () => {
+    expect(() => parseCliArgs(['watch'])).toThrow('Unknown command "watch"');
+    expect(() => parseCliArgs(['diff', 'a.json'])).toThrow('diff needs exactly two files');
+    expect(() => parseCliArgs(['diff', 'a.json', 'b.json', '--once'])).toThrow('Option --once cannot be used with "diff"');
+    expect(() => parseCliArgs(['test-notify', '--dry-run'])).toThrow('Option --dry-run cannot be used with "test-notify"');
+    expect(() => parseCliArgs(['check', 'extra'])).toThrow('Unexpected argument "extra"');
+    expect(() => parseCliArgs(['--verbose'])).toThrow();
+  });
+});
@@ -0,0 +1,70 @@
+import { parseArgs } from 'util';
+
+export type CliCommand =
+  | { command: 'check'; once: boolean; dryRun: boolean; watchIds: string[] }
+  | { command: 'diff'; fileA: string; fileB: string; watchId?: string }
+  | { command: 'test-notify'; watchIds: string[] }
+  | { command: 'help' };
+
+export const USAGE = `Usage: json-notify [command] [options]
+
+Commands:
+  check                  Check every watch now and then on its schedule (default)
+    --once               Check every watch once and exit; the exit code is 1 if a check failed
+    --dry-run            Fetch, compare and summarize, but never store state or notify
+  diff <fileA> <fileB>   Compare two local JSON files and summarize the changes
+  test-notify            Send a test message to every notification channel
+  help                   Show this message
+
+Options:
+  --watch <id>           Only use this watch; can be repeated (with diff: use its filters, array keys and rules)
+  -h, --help             Show this message`;
+
+// Rejects options given to a command they do not apply to
+function rejectOptions(command: string, given: Record<string, unknown>) {
+  const names = Object.keys(given).filter((name) => given[name] !== undefined);
+  if (names.length > 0) {
+    throw new Error(`Option --${names[0]} cannot be used with "${command}"`);
+  }
+}
+
+/**
+ * Parses the command line arguments (without the node and script paths).
+ * @throws If the arguments are not valid; the message explains why.
+ */
+export function parseCliArgs(args: string[]): CliCommand {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      once: { type: 'boolean' },
+      'dry-run': { type: 'boolean' },
+      watch: { type: 'string', multiple: true },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) return { command: 'help' };
+
+  const [command = 'check', ...operands] = positionals;
+  const watchIds = values.watch ?? [];
+  switch (command) {
+    case 'check':
+      if (operands.length > 0) throw new Error(`Unexpected argument "${operands[0]}"`);
+      return { command, once: values.once ?? false, dryRun: values['dry-run'] ?? false, watchIds };
+    case 'diff': {
+      rejectOptions(command, { once: values.once, 'dry-run': values['dry-run'] });
+      if (operands.length !== 2) throw new Error('diff needs exactly two files');
+      if (watchIds.length > 1) throw new Error('diff takes at most one --watch');
+      const [fileA, fileB] = operands;
+      return { command, fileA, fileB, watchId: watchIds[0] };
+    }
+    case 'test-notify':
+      rejectOptions(command, { once: values.once, 'dry-run': values['dry-run'] });
+      if (operands.length > 0) throw new Error(`Unexpected argument "${operands[0]}"`);
+      return { command, watchIds };
+    case 'help':
+      return { command };
+    default:
+      throw new Error(`Unknown command "${command}"`);
+  }
+}
@@ -0,0 +1,201 @@
+import fs from 'fs/promises';
+import schedule from 'node-schedule';
+import { config, type WatchConfig } from './config.js';
+import { type CliCommand } from './cli.js';
+import { compareJson } from './comparer.js';
+import { applyPathFilters } from './filters.js';
+import { generateChangeSummary } from './aiProcessor.js';
+import { checkJsonUpdates, summarizeChanges, type CheckOptions } from './monitor.js';
+import { logger } from './logger.js';
+import { createChannel, describeChange, notifyChannels, type NotificationChannel } from './notifier.js';
+import { startStatusServer } from './server.js';
+
+/**
+ * Returns the watches with the given ids, or every watch if no id is given.
+ * @throws If an id does not belong to any watch.
+ */
+function selectWatches(watchIds: string[]): WatchConfig[] {
+  if (watchIds.length === 0) return config.watches;
+  return watchIds.map((id) => {
+    const watch = config.watches.find((candidate) => candidate.id === id);
+    if (!watch) {
+      throw new Error(`Unknown watch "${id}". Configured watches: ${config.watches.map((candidate) => candidate.id).join(', ')}`);
+    }
+    return watch;
+  });
+}
+
+// One channel per distinct target, so a channel shared by several watches is used once
+function getUniqueChannels(watches: WatchConfig[]): NotificationChannel[] {
+  const uniqueChannels = new Map(
+    watches.flatMap((watch) => watch.channels).map(createChannel).map((channel) => [channel.id, channel])
+  );
+  return [...uniqueChannels.values()];
+}
+
+/**
+ * Checks the watches right away and then on their cron schedules until the process is stopped.
+ */
+async function startMonitoring(watches: WatchConfig[], options: CheckOptions) {
+  logger.info(`Starting JSON Notifier with ${watches.length} watch(es)${options.dryRun ? ' in dry-run mode' : ''}...`);
+
+  // Send startup notification if enabled
+  if (config.telegramNotifyOnStart && !options.dryRun) {
+    try {
+      const customPromptSet = config.openaiCustomPromptContext ? 'Yes' : 'No';
+      const watchLines = watches.map((watch) => `• ${watch.id}: ${watch.url} (${watch.cron})`).join('\n');
+
+      // Announce once per distinct channel
+      await notifyChannels(getUniqueChannels(watches), {
+        kind: 'startup',
+        watchId: '*',
+        title: 'JSON Notifier Started',
+        summary: `Monitoring:\n${watchLines}\nAI Model: ${config.ai ? `${config.ai.provider} ${config.ai.model}` : 'disabled'}\nCustom Prompt: ${customPromptSet}`,
+        timestamp: new Date().toISOString(),
+      });
+      logger.info('Startup notification sent.');
+    } catch (error) {
+      logger.error('Failed to send startup notification.', { error });
+    }
+  }
+
+  // Started before the first checks, so liveness probes succeed while they run
+  const server = config.httpServer.port ? await startStatusServer(watches, options, config.httpServer) : undefined;
+
+  // Perform an initial check of every watch immediately on startup
+  await Promise.all(watches.map((watch) => checkJsonUpdates(watch, options)));
+
+  // Schedule one job per watch based on its cron interval
+  for (const watch of watches) {
+    logger.info(`Scheduling check for "${watch.id}" with interval: ${watch.cron}`);
+    const job = schedule.scheduleJob(watch.id, watch.cron, () => {
+      checkJsonUpdates(watch, options);
+    });
+
+    logger.info(
+      `Scheduler started for "${watch.id}". Next run at: ${job.nextInvocation()?.toISOString() ?? 'N/A'}`
+    );
+  }
+
+  // Keep the process running
+  process.on('SIGINT', () => {
+    logger.info('Gracefully shutting down scheduler...');
+    server?.close();
+    schedule.gracefulShutdown().then(() => process.exit(0));
+  });
+}
+
+/**
+ * Checks the watches once, for external schedulers like cron or CI.
+ * @returns The exit code: 1 if any check failed.
+ */
+async function checkOnce(watches: WatchConfig[], options: CheckOptions): Promise<number> {
+  const results = await Promise.all(watches.map((watch) => checkJsonUpdates(watch, options)));
+  const failed = results.filter((ok) => !ok).length;
+  logger.info(`Checked ${watches.length} watch(es): ${failed === 0 ? 'all succeeded' : `${failed} failed`}.`);
+  return failed === 0 ? 0 : 1;
+}
+
+// Reads a local JSON file to compare, naming the file in errors
+async function readJsonObject(filePath: string): Promise<object> {
+  let value: unknown;
+  try {
+    value = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Cannot read ${filePath}: ${(error as Error).message}`);
+  }
+  if (typeof value !== 'object' || value === null) {
+    throw new Error(`${filePath} does not contain a JSON object or array`);
+  }
+  return value;
+}
+
+/**
+ * Compares two local JSON files and summarizes the changes, like a check would. With a watch, its
+ * filters, array keys and rules are applied; otherwise the whole files are compared and the AI decides.
+ * @returns The exit code.
+ */
+async function diffFiles(fileA: string, fileB: string, watchId?: string): Promise<number> {
+  const watch = watchId ? selectWatches([watchId])[0] : undefined;
+  let oldState = await readJsonObject(fileA);
+  let newState = await readJsonObject(fileB);
+  if (watch) {
+    const filters = { include: watch.include, ignore: watch.ignore, arrayKeys: watch.arrayKeys };
+    oldState = applyPathFilters(oldState, filters);
+    newState = applyPathFilters(newState, filters);
+  }
+
+  const changes = compareJson(oldState, newState, { arrayKeys: watch?.arrayKeys }) ?? [];
+  if (changes.length === 0) {
+    console.log('The files do not differ.');
+    return 0;
+  }
+  console.log(changes.map((change) => `- ${change.path || '/'} ${describeChange(change)}`).join('\n'));
+
+  const summary = watch
+    ? await summarizeChanges(watch, changes, oldState, newState)
+    : await generateChangeSummary(changes);
+  console.log(
+    summary.isWorthToReport
+      ? `\nWorth reporting (${summary.severity}):\n${summary.title ? `${summary.title}\n` : ''}${summary.reportedChanges}`
+      : '\nNot worth reporting. No notification would be sent.'
+  );
+  return 0;
+}
+
+/**
+ * Sends a test message to every distinct channel of the watches, so credentials and chat ids can be
+ * verified without waiting for a change.
+ * @returns The exit code: 1 if any channel failed.
+ */
+async function testNotify(watches: WatchConfig[]): Promise<number> {
+  // Group the watches by channel target, so a shared channel gets one message
+  const usage = new Map<string, { channel: NotificationChannel; watchIds: string[] }>();
+  for (const watch of watches) {
+    for (const channel of watch.channels.map(createChannel)) {
+      const entry = usage.get(channel.id) ?? { channel, watchIds: [] };
+      if (!entry.watchIds.includes(watch.id)) entry.watchIds.push(watch.id);
+      usage.set(channel.id, entry);
+    }
+  }
+
+  const results = await Promise.all(
+    [...usage.values()].map(async ({ channel, watchIds }) => {
+      try {
+        await channel.send({
+          kind: 'test',
+          watchId: '*',
+          title: 'JSON Notifier test message',
+          summary: `This channel is configured correctly. Notifications of ${watchIds.join(', ')} will arrive here.`,
+          timestamp: new Date().toISOString(),
+        });
+        console.log(`✓ ${channel.name}`);
+        return true;
+      } catch (error) {
+        console.error(`✗ ${channel.name}: ${error instanceof Error ? error.message : String(error)}`);
+        return false;
+      }
+    })
+  );
+  return results.every(Boolean) ? 0 : 1;
+}
+
+/**
+ * Runs a command given on the command line.
+ * @returns The exit code; a running `check` without `--once` keeps the process alive on its own.
+ */
+export async function runCommand(command: Exclude<CliCommand, { command: 'help' }>): Promise<number> {
+  switch (command.command) {
+    case 'check': {
+      const watches = selectWatches(command.watchIds);
+      const options = { dryRun: command.dryRun };
+      if (command.once) return checkOnce(watches, options);
+      await startMonitoring(watches, options);
+      return 0;
+    }
+    case 'diff':
+      return diffFiles(command.fileA, command.fileB, command.watchId);
+    case 'test-notify':
+      return testNotify(selectWatches(command.watchIds));
+  }
+}
@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { compareJson } from './comparer.js'; // Use .js extension for ESM imports
+import { describe, it, expect, vi } from 'vitest';
+import { compareJson, parseArrayKey, parseJsonPointer, toJsonPointer } from './comparer.js'; // Use .js extension for ESM imports
 
 describe('compareJson', () => {
   it('should return null when objects are identical', () => {
@@ -11,62 +11,177 @@ describe('compareJson', () => {
   it('should return null when objects have same keys/values but different order', () => {
     const oldState = { a: 1, b: 'hello' };
     const newState = { b: 'hello', a: 1 };
-    // fast-json-stable-stringify handles key order normalization
     expect(compareJson(oldState, newState)).toBeNull();
   });
 
   it('should detect added properties', () => {
     const oldState = { a: 1 };
     const newState = { a: 1, b: 'new' };
-    const changes = compareJson(oldState, newState);
-    expect(changes).toHaveLength(1);
-    expect(changes?.[0]).toMatchObject({ value: '  "b": "new"\n', added: true });
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'added', path: '/b', newValue: 'new' },
+    ]);
   });
 
   it('should detect removed properties', () => {
     const oldState = { a: 1, b: 'remove' };
     const newState = { a: 1 };
-    const changes = compareJson(oldState, newState);
-    expect(changes).toHaveLength(1);
-    expect(changes?.[0]).toMatchObject({ value: '  "b": "remove"\n', removed: true });
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'removed', path: '/b', oldValue: 'remove' },
+    ]);
   });
 
   it('should detect modified properties', () => {
     const oldState = { a: 1, b: 'old' };
     const newState = { a: 1, b: 'new' };
-    const changes = compareJson(oldState, newState);
-    expect(changes?.length).toBeGreaterThanOrEqual(2);
-    expect(changes).toEqual(
-      expect.arrayContaining([
-        expect.objectContaining({ value: '  "b": "old"\n', removed: true }),
-        expect.objectContaining({ value: '  "b": "new"\n', added: true }),
-      ])
-    );
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'changed', path: '/b', oldValue: 'old', newValue: 'new' },
+    ]);
   });
 
   it('should detect changes in nested objects', () => {
-    const oldState = { data: { value: 10 } };
-    const newState = { data: { value: 20 } };
-    const changes = compareJson(oldState, newState);
-    expect(changes?.length).toBeGreaterThanOrEqual(2);
-    expect(changes).toEqual(
-      expect.arrayContaining([
-        expect.objectContaining({ value: '    "value": 10\n', removed: true }),
-        expect.objectContaining({ value: '    "value": 20\n', added: true }),
-      ])
-    );
+    const oldState = { data: { value: 10, label: 'x' } };
+    const newState = { data: { value: 20, label: 'x' } };
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'changed', path: '/data/value', oldValue: 10, newValue: 20 },
+    ]);
+  });
+
+  it('should report a type change as a single changed operation', () => {
+    const oldState: object = { data: { value: 10 } };
+    const newState: object = { data: [10] };
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'changed', path: '/data', oldValue: { value: 10 }, newValue: [10] },
+    ]);
   });
 
   it('should detect changes in arrays', () => {
     const oldState = { items: [1, 2, 3] };
     const newState = { items: [1, 2, 4] };
-    const changes = compareJson(oldState, newState);
-    expect(changes?.length).toBeGreaterThanOrEqual(2);
-    expect(changes).toEqual(
-      expect.arrayContaining([
-        expect.objectContaining({ value: '    3\n', removed: true }),
-        expect.objectContaining({ value: '    4\n', added: true }),
-      ])
-    );
-  });
-}); 
\ No newline at end of file
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'changed', path: '/items/2', oldValue: 3, newValue: 4 },
+    ]);
+  });
+
+  it('should report a deep field change inside an array element by its exact path', () => {
+    const oldState = { items: [{ id: 1, price: 10 }, { id: 2, price: 20 }] };
+    const newState = { items: [{ id: 1, price: 10 }, { id: 2, price: 25 }] };
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'changed', path: '/items/1/price', oldValue: 20, newValue: 25 },
+    ]);
+  });
+
+  it('should report inserted and deleted array elements without touching their neighbours', () => {
+    const oldState = { items: ['a', 'b', 'c'] };
+    const newState = { items: ['x', 'a', 'c'] };
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'added', path: '/items/0', newValue: 'x' },
+      { op: 'removed', path: '/items/1', oldValue: 'b' },
+    ]);
+  });
+
+  it('should report reordered array elements as moved', () => {
+    const oldState = { items: [{ id: 1 }, { id: 2 }, { id: 3 }] };
+    const newState = { items: [{ id: 3 }, { id: 1 }, { id: 2 }] };
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'moved', path: '/items/0', from: '/items/2', oldValue: { id: 3 }, newValue: { id: 3 } },
+    ]);
+  });
+
+  it('should compare arrays by position when they changed in too many places', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const items = Array.from({ length: 2000 }, (_, index) => index);
+    const reversed = [...items].reverse();
+    reversed[0] = -1;
+
+    const changes = compareJson({ items }, { items: reversed }) ?? [];
+
+    expect(changes).toHaveLength(2000);
+    expect(changes.filter((change) => change.op === 'moved')).toHaveLength(1999);
+    expect(changes).toContainEqual({ op: 'changed', path: '/items/0', oldValue: 1999, newValue: -1 });
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Falling back to positional matching'));
+    warnSpy.mockRestore();
+  });
+
+  it('should escape "~" and "/" in keys', () => {
+    const oldState = { 'a/b': { 'c~d': 1 } };
+    const newState = { 'a/b': { 'c~d': 2 } };
+    expect(compareJson(oldState, newState)).toEqual([
+      { op: 'changed', path: '/a~1b/c~0d', oldValue: 1, newValue: 2 },
+    ]);
+  });
+});
+
+describe('compareJson with array keys', () => {
+  const options = { arrayKeys: ['items[*].id'] };
+
+  it('should not report reordered keyed elements', () => {
+    const oldState = { items: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] };
+    const newState = { items: [{ id: 3, name: 'c' }, { id: 1, name: 'a' }, { id: 2, name: 'b' }] };
+    expect(compareJson(oldState, newState, options)).toBeNull();
+  });
+
+  it('should report only the really inserted, deleted and modified elements', () => {
+    const oldState = { items: [{ id: 1, price: 10 }, { id: 2, price: 20 }, { id: 3, price: 30 }] };
+    const newState = { items: [{ id: 4, price: 40 }, { id: 3, price: 35 }, { id: 1, price: 10 }] };
+    expect(compareJson(oldState, newState, options)).toEqual([
+      { op: 'added', path: '/items/0', newValue: { id: 4, price: 40 } },
+      { op: 'changed', path: '/items/1/price', oldValue: 30, newValue: 35 },
+      { op: 'removed', path: '/items/1', oldValue: { id: 2, price: 20 } },
+    ]);
+  });
+
+  it('should support nested arrays and nested key paths', () => {
+    const nestedOptions = { arrayKeys: ['groups[*].members[*].user.id'] };
+    const oldState = { groups: [{ members: [{ user: { id: 'a' }, role: 'dev' }, { user: { id: 'b' }, role: 'ops' }] }] };
+    const newState = { groups: [{ members: [{ user: { id: 'b' }, role: 'ops' }, { user: { id: 'a' }, role: 'lead' }] }] };
+    expect(compareJson(oldState, newState, nestedOptions)).toEqual([
+      { op: 'changed', path: '/groups/0/members/1/role', oldValue: 'dev', newValue: 'lead' },
+    ]);
+  });
+
+  it('should fall back to positional matching when keys are missing or duplicated', () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const oldState: object = { items: [{ id: 1 }, { id: 1 }] };
+    const newState: object = { items: [{ id: 1 }, { id: 1 }, { name: 'x' }] };
+    expect(compareJson(oldState, newState, options)).toEqual([
+      { op: 'added', path: '/items/2', newValue: { name: 'x' } },
+    ]);
+    expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('Falling back to positional matching'));
+    warnSpy.mockRestore();
+  });
+
+  it('should leave arrays at other paths positional', () => {
+    const oldState = { other: [{ id: 1 }, { id: 2 }] };
+    const newState = { other: [{ id: 2 }, { id: 1 }] };
+    expect(compareJson(oldState, newState, options)).toEqual([
+      { op: 'moved', path: '/other/1', from: '/other/0', oldValue: { id: 1 }, newValue: { id: 1 } },
+    ]);
+  });
+});
+
+describe('parseArrayKey', () => {
+  it('should split the declaration into array path and key path', () => {
+    expect(parseArrayKey('data.items[*].meta.id')).toEqual({
+      arrayPath: ['data', 'items'],
+      keyPath: ['meta', 'id'],
+    });
+  });
+
+  it('should reject declarations without a wildcard or key', () => {
+    expect(() => parseArrayKey('items.id')).toThrow('Invalid array key');
+    expect(() => parseArrayKey('items[*]')).toThrow('Invalid array key');
+  });
+});
+
+describe('JSON Pointer helpers', () => {
+  it('should round-trip path segments', () => {
+    const pointer = toJsonPointer(['items', 3, 'a/b', 'c~d']);
+    expect(pointer).toBe('/items/3/a~1b/c~0d');
+    expect(parseJsonPointer(pointer)).toEqual(['items', '3', 'a/b', 'c~d']);
+  });
+
+  it('should map the root to an empty pointer', () => {
+    expect(toJsonPointer([])).toBe('');
+    expect(parseJsonPointer('')).toEqual([]);
+  });
+});
@@ -1,39 +1,324 @@
 import stringify from 'fast-json-stable-stringify';
-import { diffJson, type Change } from 'diff';
+import { diffArrays, type ArrayChange } from 'diff';
+import { getValueAtPath, matchesPath, parsePathPattern, type PathPattern } from './pathMatcher.js';
+import { logger } from './logger.js';
+
+export type DiffOperationType = 'added' | 'removed' | 'changed' | 'moved';
 
 /**
- * Compares two JSON objects for differences.
- * @param oldState The previous JSON state.
- * @param newState The current JSON state.
- * @returns An array of Change objects if differences are found, otherwise null.
+ * A single structural difference between two JSON documents.
+ * `path` is a JSON Pointer (RFC 6901) into the new state, or into the old state
+ * for `removed` operations. `moved` operations also carry the old location in `from`.
  */
-export function compareJson<T extends object>(oldState: T, newState: T): Change[] | null {
-  // Use stable stringify to ensure consistent key order for comparison
-  const oldString = stringify(oldState);
-  const newString = stringify(newState);
+export interface DiffOperation {
+  op: DiffOperationType;
+  path: string;
+  from?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
 
-  if (oldString === newString) {
-    console.log('No changes detected in JSON data.');
-    return null; // No changes
+export interface CompareOptions {
+  /**
+   * Identity keys for arrays of objects, e.g. "items[*].id". Elements of matching arrays
+   * are paired by key instead of position, so reordering alone is not reported.
+   */
+  arrayKeys?: string[];
+}
+
+export interface ArrayKey {
+  arrayPath: PathPattern;
+  keyPath: string[];
+}
+
+interface DiffContext {
+  arrayKeys: ArrayKey[];
+}
+
+type PathSegment = string | number;
+
+/**
+ * Parses an array identity key declaration such as "items[*].id" or "groups[*].members[*].user.id".
+ * The part up to the last "*" addresses the array, the remainder is the key inside each element.
+ * @param declaration The key declaration.
+ * @returns The parsed array path pattern and key path.
+ */
+export function parseArrayKey(declaration: string): ArrayKey {
+  const segments = parsePathPattern(declaration);
+  const lastWildcard = segments.lastIndexOf('*');
+  const keyPath = segments.slice(lastWildcard + 1);
+  if (lastWildcard === -1 || keyPath.length === 0 || keyPath.some((s) => s === '*' || s === '**')) {
+    throw new Error(`Invalid array key "${declaration}": expected a form like "items[*].id"`);
+  }
+  return { arrayPath: segments.slice(0, lastWildcard), keyPath };
+}
+
+/**
+ * Converts path segments into a JSON Pointer, escaping "~" and "/".
+ * @param segments The object keys and array indices leading to a value.
+ * @returns The JSON Pointer, e.g. "/items/3/price". The root is "".
+ */
+export function toJsonPointer(segments: PathSegment[]): string {
+  return segments
+    .map((segment) => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+/**
+ * Splits a JSON Pointer into its unescaped segments.
+ * @param pointer The JSON Pointer, e.g. "/items/3/price".
+ * @returns The path segments, e.g. ['items', '3', 'price'].
+ */
+export function parseJsonPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  return pointer
+    .slice(1)
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compares two JSON values structurally; the order of object keys does not matter.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && isDeepEqual(a[key], b[key]))
+    );
   }
+  return false;
+}
 
-  console.log('Changes detected. Generating diff...');
-  // diffJson provides structured diff information
-  const differences = diffJson(oldState, newState);
+function diffValues(
+  oldValue: unknown,
+  newValue: unknown,
+  path: PathSegment[],
+  ops: DiffOperation[],
+  context: DiffContext
+) {
+  if (isDeepEqual(oldValue, newValue)) return;
 
-  // Filter out parts that haven't changed
-  const actualChanges = differences.filter(
-    (part) => part.added || part.removed
-  );
+  if (Array.isArray(oldValue) && Array.isArray(newValue)) {
+    const arrayKey = context.arrayKeys.find((key) => matchesPath(key.arrayPath, path));
+    if (!arrayKey || !diffKeyedArrayValues(oldValue, newValue, arrayKey, path, ops, context)) {
+      diffArrayValues(oldValue, newValue, path, ops, context);
+    }
+  } else if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+    diffObjectValues(oldValue, newValue, path, ops, context);
+  } else {
+    ops.push({ op: 'changed', path: toJsonPointer(path), oldValue, newValue });
+  }
+}
 
-  /* v8 ignore next 2 */ // Ignore the empty diff branch, covered by identical object tests
-  if (actualChanges.length === 0) {
-    console.log('No changes detected in JSON data.');
-    return null;
+function diffObjectValues(
+  oldObject: Record<string, unknown>,
+  newObject: Record<string, unknown>,
+  path: PathSegment[],
+  ops: DiffOperation[],
+  context: DiffContext
+) {
+  // Sorted keys keep the operation order stable regardless of the key order in the payload
+  const keys = [...new Set([...Object.keys(oldObject), ...Object.keys(newObject)])].sort();
+  for (const key of keys) {
+    const inOld = Object.prototype.hasOwnProperty.call(oldObject, key);
+    const inNew = Object.prototype.hasOwnProperty.call(newObject, key);
+    if (inOld && !inNew) {
+      ops.push({ op: 'removed', path: toJsonPointer([...path, key]), oldValue: oldObject[key] });
+    } else if (!inOld && inNew) {
+      ops.push({ op: 'added', path: toJsonPointer([...path, key]), newValue: newObject[key] });
+    } else {
+      diffValues(oldObject[key], newObject[key], [...path, key], ops, context);
+    }
   }
+}
 
-  // Optional: Log the detailed diff for debugging
-  // console.log('Detailed Diff:', JSON.stringify(actualChanges, null, 2));
+// Maps each element to its identity key, or returns null if any key is missing or duplicated
+function indexByKey(array: unknown[], keyPath: string[]): Map<string, number> | null {
+  const index = new Map<string, number>();
+  for (let i = 0; i < array.length; i++) {
+    const key = getValueAtPath(array[i], keyPath);
+    if (key === undefined) return null;
+    const hash = stringify(key);
+    if (index.has(hash)) return null;
+    index.set(hash, i);
+  }
+  return index;
+}
+
+/**
+ * Diffs two arrays by element identity. Returns false (without emitting anything) when the
+ * elements cannot be keyed, so the caller can fall back to the positional diff.
+ */
+function diffKeyedArrayValues(
+  oldArray: unknown[],
+  newArray: unknown[],
+  arrayKey: ArrayKey,
+  path: PathSegment[],
+  ops: DiffOperation[],
+  context: DiffContext
+): boolean {
+  const oldIndex = indexByKey(oldArray, arrayKey.keyPath);
+  const newIndex = indexByKey(newArray, arrayKey.keyPath);
+  if (!oldIndex || !newIndex) {
+    logger.warn(
+      `Array at "${toJsonPointer(path) || '/'}" has elements with a missing or duplicate key "${arrayKey.keyPath.join('.')}". Falling back to positional matching.`
+    );
+    return false;
+  }
+
+  for (const [hash, index] of newIndex) {
+    const previous = oldIndex.get(hash);
+    if (previous === undefined) {
+      ops.push({ op: 'added', path: toJsonPointer([...path, index]), newValue: newArray[index] });
+    } else {
+      diffValues(oldArray[previous], newArray[index], [...path, index], ops, context);
+    }
+  }
+  for (const [hash, index] of oldIndex) {
+    if (!newIndex.has(hash)) {
+      ops.push({ op: 'removed', path: toJsonPointer([...path, index]), oldValue: oldArray[index] });
+    }
+  }
+  return true;
+}
+
+// Edits beyond this make the sequence diff give up: its cost grows with the array size times the
+// number of edits, and a single check must not block the event loop for seconds
+const MAX_ARRAY_EDIT_LENGTH = 500;
+
+type Hunk = { removed: number[]; added: number[] };
+
+// Groups the elements that are not common to both arrays into hunks, or returns null if the arrays
+// differ too much for the sequence diff
+function findHunks(oldHashes: string[], newHashes: string[]): Hunk[] | null {
+  const parts = diffArrays(oldHashes, newHashes, { maxEditLength: MAX_ARRAY_EDIT_LENGTH }) as ArrayChange<string>[] | undefined;
+  if (!parts) return null;
+  const hunks: Hunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let currentHunk: Hunk | null = null;
+  for (const part of parts) {
+    const count = part.value.length;
+    if (!part.added && !part.removed) {
+      currentHunk = null;
+      oldIndex += count;
+      newIndex += count;
+      continue;
+    }
+    if (!currentHunk) {
+      currentHunk = { removed: [], added: [] };
+      hunks.push(currentHunk);
+    }
+    for (let i = 0; i < count; i++) {
+      if (part.removed) currentHunk.removed.push(oldIndex++);
+      else currentHunk.added.push(newIndex++);
+    }
+  }
+  return hunks;
+}
+
+// Cheap replacement for findHunks: every element that differs from the one at the same position
+// goes into a single hunk, leaving moves to the hash matching and the rest to pairing by position
+function findPositionalHunk(oldHashes: string[], newHashes: string[]): Hunk[] {
+  const hunk: Hunk = { removed: [], added: [] };
+  for (let index = 0; index < Math.max(oldHashes.length, newHashes.length); index++) {
+    if (index < oldHashes.length && index < newHashes.length && oldHashes[index] === newHashes[index]) continue;
+    if (index < oldHashes.length) hunk.removed.push(index);
+    if (index < newHashes.length) hunk.added.push(index);
+  }
+  return [hunk];
+}
+
+function diffArrayValues(
+  oldArray: unknown[],
+  newArray: unknown[],
+  path: PathSegment[],
+  ops: DiffOperation[],
+  context: DiffContext
+) {
+  const oldHashes = oldArray.map((item) => stringify(item));
+  const newHashes = newArray.map((item) => stringify(item));
+
+  // 1. Run a sequence diff on the element hashes and group the non-common parts into hunks
+  let hunks = findHunks(oldHashes, newHashes);
+  if (!hunks) {
+    logger.warn(
+      `Array at "${toJsonPointer(path) || '/'}" changed in more than ${MAX_ARRAY_EDIT_LENGTH} places. Falling back to positional matching.`
+    );
+    hunks = findPositionalHunk(oldHashes, newHashes);
+  }
+
+  // 2. Elements removed in one place and added unchanged in another were moved
+  const removedByHash = new Map<string, number[]>();
+  for (const index of hunks.flatMap((hunk) => hunk.removed)) {
+    const list = removedByHash.get(oldHashes[index]) ?? [];
+    list.push(index);
+    removedByHash.set(oldHashes[index], list);
+  }
+  const movedOld = new Set<number>();
+  const movedNew = new Set<number>();
+  for (const index of hunks.flatMap((hunk) => hunk.added)) {
+    const from = removedByHash.get(newHashes[index])?.shift();
+    if (from === undefined) continue;
+    movedOld.add(from);
+    movedNew.add(index);
+    ops.push({
+      op: 'moved',
+      path: toJsonPointer([...path, index]),
+      from: toJsonPointer([...path, from]),
+      oldValue: oldArray[from],
+      newValue: newArray[index],
+    });
+  }
+
+  // 3. Within a hunk, pair the remaining removed/added elements and diff them in place
+  for (const hunk of hunks) {
+    const removed = hunk.removed.filter((index) => !movedOld.has(index));
+    const added = hunk.added.filter((index) => !movedNew.has(index));
+    const pairs = Math.min(removed.length, added.length);
+    for (let i = 0; i < pairs; i++) {
+      diffValues(oldArray[removed[i]], newArray[added[i]], [...path, added[i]], ops, context);
+    }
+    for (const index of removed.slice(pairs)) {
+      ops.push({ op: 'removed', path: toJsonPointer([...path, index]), oldValue: oldArray[index] });
+    }
+    for (const index of added.slice(pairs)) {
+      ops.push({ op: 'added', path: toJsonPointer([...path, index]), newValue: newArray[index] });
+    }
+  }
+}
+
+/**
+ * Compares two JSON objects for differences.
+ * @param oldState The previous JSON state.
+ * @param newState The current JSON state.
+ * @param options Array identity keys and other comparison settings.
+ * @returns An array of structural diff operations if differences are found, otherwise null.
+ */
+export function compareJson<T extends object>(
+  oldState: T,
+  newState: T,
+  options: CompareOptions = {}
+): DiffOperation[] | null {
+  const context: DiffContext = { arrayKeys: (options.arrayKeys ?? []).map(parseArrayKey) };
+  const operations: DiffOperation[] = [];
+  diffValues(oldState, newState, [], operations, context);
+
+  if (operations.length === 0) {
+    logger.info('No changes detected in JSON data.');
+    return null; // No changes
+  }
 
-  return actualChanges;
-} 
\ No newline at end of file
+  logger.info(`Changes detected: ${operations.length} operation(s).`);
+  return operations;
+}
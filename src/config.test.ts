@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 // Removed z and configSchema import
 // import { z } from 'zod';
 // import { configSchema } from './config.js';
@@ -87,7 +90,7 @@ describe('config', () => {
        const { config } = await import('./config.js');
 
        expect(config.jsonUrl).toBe(validEnv.JSON_URL);
-       expect(config.openaiApiKey).toBe(validEnv.OPENAI_API_KEY);
+       expect(config.ai).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', apiKey: validEnv.OPENAI_API_KEY });
        expect(config.telegramBotToken).toBe(validEnv.TELEGRAM_BOT_TOKEN);
        expect(config.telegramChatId).toBe(validEnv.TELEGRAM_CHAT_ID);
        expect(config.checkIntervalCron).toBe(validEnv.CHECK_INTERVAL_CRON);
@@ -110,7 +113,7 @@ describe('config', () => {
        const { config } = await import('./config.js');
 
        expect(config.jsonUrl).toBe(minimalEnv.JSON_URL);
-       expect(config.openaiApiKey).toBe(minimalEnv.OPENAI_API_KEY);
+       expect(config.ai).toMatchObject({ provider: 'openai', model: 'gpt-4o-mini', apiKey: minimalEnv.OPENAI_API_KEY });
        // Check defaults
        expect(config.stateFilePath).toContain('lastState.json'); // Check default filename
        expect(config.openaiCustomPromptContext).toBe('Check for new events in Rivian Laguna, summarize');
@@ -191,4 +194,450 @@ describe('config', () => {
           expect(config.stateFilePath).toBe(expectedPath);
        });
    });
-}); 
\ No newline at end of file
+
+  describe('Watch List', () => {
+    const baseEnv = {
+      OPENAI_API_KEY: 'sk-watchlist',
+      TELEGRAM_BOT_TOKEN: 'watchlist:abc',
+      TELEGRAM_CHAT_ID: 'default-chat',
+      CHECK_INTERVAL_CRON: '*/5 * * * *',
+      OPENAI_CUSTOM_PROMPT_CONTEXT: 'Default context',
+    };
+
+    const writeWatchList = (fileName: string, content: string) => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-notify-config-'));
+      const filePath = path.join(dir, fileName);
+      fs.writeFileSync(filePath, content);
+      return filePath;
+    };
+
+    const importWithEnv = async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single' });
+      return import('./config.js');
+    };
+
+    it('should synthesize a single "default" watch from env vars when no watch list is set', async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single' });
+      const { config } = await import('./config.js');
+
+      expect(config.watches).toHaveLength(1);
+      expect(config.watches[0]).toMatchObject({
+        id: 'default',
+        url: 'http://test.com/single',
+        cron: '*/5 * * * *',
+        stateFilePath: config.stateFilePath,
+        promptContext: 'Default context',
+        channels: [{ type: 'telegram', chatId: 'default-chat' }],
+      });
+    });
+
+    it('should load a YAML watch list and fill in defaults from env vars', async () => {
+      const filePath = writeWatchList('watches.yaml', `
+watches:
+  - id: releases
+    url: https://example.com/releases.json
+    cron: "0 * * * *"
+    promptContext: Only report new releases
+    arrayKeys:
+      - releases[*].version
+    ignore:
+      - generatedAt
+    rules:
+      - path: releases
+        when: grew
+    rulesMode: standalone
+    notify:
+      telegramChatId: releases-chat
+  - id: prices
+    url: https://example.com/prices.json
+    stateFile: ./data/prices.json
+`);
+      mockEnv({ ...baseEnv, WATCHLIST_FILE: filePath });
+      const { config } = await import('./config.js');
+
+      expect(config.jsonUrl).toBe(''); // Not required in watch-list mode
+      expect(config.watches).toEqual([
+        {
+          id: 'releases',
+          url: 'https://example.com/releases.json',
+          request: { method: 'GET', headers: {}, body: undefined, timeoutMs: 30000, proxy: undefined, retries: 2, retryDelayMs: 1000 },
+          alertAfterFailures: 3,
+          cron: '0 * * * *',
+          stateFilePath: path.join(path.dirname(filePath), 'state', 'releases.json'),
+          promptContext: 'Only report new releases',
+          arrayKeys: ['releases[*].version'],
+          include: [],
+          ignore: ['generatedAt'],
+          rules: [{ path: 'releases', when: 'grew' }],
+          rulesMode: 'standalone',
+          channels: [{ type: 'telegram', chatId: 'releases-chat' }],
+        },
+        {
+          id: 'prices',
+          url: 'https://example.com/prices.json',
+          request: { method: 'GET', headers: {}, body: undefined, timeoutMs: 30000, proxy: undefined, retries: 2, retryDelayMs: 1000 },
+          alertAfterFailures: 3,
+          cron: '*/5 * * * *',
+          stateFilePath: path.join(path.dirname(filePath), 'data', 'prices.json'),
+          promptContext: 'Default context',
+          arrayKeys: [],
+          include: [],
+          ignore: [],
+          rules: [],
+          rulesMode: 'prefilter',
+          channels: [{ type: 'telegram', chatId: 'default-chat' }],
+        },
+      ]);
+    });
+
+    it('should parse JSON watch lists', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const watchList = parseWatchList(
+        JSON.stringify({ watches: [{ id: 'feed', url: 'https://example.com/feed.json' }] }),
+        'watches.json'
+      );
+      expect(watchList.watches[0]).toEqual({ id: 'feed', url: 'https://example.com/feed.json', arrayKeys: [], include: [], ignore: [], rules: [], rulesMode: 'prefilter', notify: {} });
+    });
+
+    it('should reject malformed array keys', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const content = JSON.stringify({
+        watches: [{ id: 'feed', url: 'https://example.com/feed.json', arrayKeys: ['items.id'] }],
+      });
+      expect(() => parseWatchList(content, 'watches.json')).toThrow(
+        'watches.0.arrayKeys.0: Invalid array key "items.id"'
+      );
+    });
+
+    it('should reject invalid entries with the failing paths', async () => {
+      const { parseWatchList } = await importWithEnv();
+      expect(() =>
+        parseWatchList('watches:\n  - id: bad id\n    url: not-a-url\n', 'watches.yml')
+      ).toThrow(/watches\.0\.id: .*watches\.0\.url: Invalid url/);
+    });
+
+    it('should reject duplicate watch ids', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const content = JSON.stringify({
+        watches: [
+          { id: 'same', url: 'https://example.com/a.json' },
+          { id: 'same', url: 'https://example.com/b.json' },
+        ],
+      });
+      expect(() => parseWatchList(content, 'watches.json')).toThrow('Watch ids must be unique');
+    });
+
+    it('should reject watches sharing a state file', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const content = JSON.stringify({
+        watches: [
+          { id: 'a', url: 'https://example.com/a.json', stateFile: './data/../state/shared.json' },
+          { id: 'b', url: 'https://example.com/b.json', stateFile: 'state/shared.json' },
+        ],
+      });
+      expect(() => parseWatchList(content, 'watches.json')).toThrow('Watches must not share a state file');
+      // The default state file of a watch counts too
+      const clash = JSON.stringify({
+        watches: [
+          { id: 'a', url: 'https://example.com/a.json' },
+          { id: 'b', url: 'https://example.com/b.json', stateFile: './state/a.json' },
+        ],
+      });
+      expect(() => parseWatchList(clash, 'watches.json')).toThrow('Watches must not share a state file');
+      // Snapshots and side files of "a" and "a.json" are the same
+      const sameBase = JSON.stringify({
+        watches: [
+          { id: 'a', url: 'https://example.com/a.json', stateFile: './state/shared' },
+          { id: 'b', url: 'https://example.com/b.json', stateFile: './state/shared.json' },
+        ],
+      });
+      expect(() => parseWatchList(sameBase, 'watches.json')).toThrow('Watches must not share a state file');
+    });
+
+    it('should collect channels from all notification env vars', async () => {
+      mockEnv({
+        ...baseEnv,
+        JSON_URL: 'http://test.com/single',
+        SLACK_WEBHOOK_URL: 'https://hooks.slack.com/services/T/B/X',
+        WEBHOOK_URL: 'https://example.com/hook',
+      });
+      const { config } = await import('./config.js');
+
+      expect(config.watches[0].channels).toEqual([
+        { type: 'telegram', chatId: 'default-chat' },
+        { type: 'slack', webhookUrl: 'https://hooks.slack.com/services/T/B/X' },
+        { type: 'webhook', url: 'https://example.com/hook', headers: {} },
+      ]);
+    });
+
+    it('should require at least one notification target without a watch list', async () => {
+      const { TELEGRAM_CHAT_ID: _chatId, ...envWithoutChat } = baseEnv;
+      mockEnv({ ...envWithoutChat, JSON_URL: 'http://test.com/single' });
+
+      await expect(import('./config.js')).rejects.toThrow('Missing notification target');
+    });
+
+    it('should build an email channel from EMAIL_TO and the SMTP settings', async () => {
+      mockEnv({
+        ...baseEnv,
+        JSON_URL: 'http://test.com/single',
+        EMAIL_TO: 'ops@example.com, team@example.com',
+        SMTP_HOST: 'smtp.example.com',
+        SMTP_PORT: '465',
+        SMTP_SECURE: 'true',
+        SMTP_FROM: 'notifier@example.com',
+      });
+      const { config } = await import('./config.js');
+
+      expect(config.watches[0].channels).toContainEqual({ type: 'email', to: ['ops@example.com', 'team@example.com'] });
+      expect(config.smtp).toEqual({
+        host: 'smtp.example.com',
+        port: 465,
+        secure: true,
+        user: '',
+        pass: '',
+        from: 'notifier@example.com',
+      });
+    });
+
+    it('should reject email channels when SMTP_HOST is not set', async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single', EMAIL_TO: 'ops@example.com', SMTP_FROM: 'notifier@example.com' });
+
+      await expect(import('./config.js')).rejects.toThrow('The environment has an email channel but SMTP_HOST is not set');
+    });
+
+    it('should reject Telegram channels when TELEGRAM_BOT_TOKEN is not set', async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single', TELEGRAM_BOT_TOKEN: '', TELEGRAM_CHAT_ID: 'chat' });
+
+      await expect(import('./config.js')).rejects.toThrow('The environment has a Telegram channel but TELEGRAM_BOT_TOKEN is not set');
+    });
+
+    it('should resolve request settings with env-var interpolation and auth', async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single', API_TOKEN: 'tok-123', API_USER: 'bot', API_PASS: 's3cret' });
+      const { resolveRequest } = await import('./config.js');
+
+      expect(
+        resolveRequest(
+          {
+            method: 'POST',
+            headers: { 'X-Api-Key': '${API_TOKEN}' },
+            body: { query: 'search', token: '${API_TOKEN}' },
+            auth: { type: 'basic', username: '${API_USER}', password: '${API_PASS}' },
+            timeoutMs: 5000,
+            proxy: 'http://proxy.internal:3128',
+          },
+          'Watch "feed"'
+        )
+      ).toEqual({
+        method: 'POST',
+        headers: {
+          'X-Api-Key': 'tok-123',
+          Authorization: `Basic ${Buffer.from('bot:s3cret').toString('base64')}`,
+          'Content-Type': 'application/json',
+        },
+        body: '{"query":"search","token":"tok-123"}',
+        timeoutMs: 5000,
+        proxy: 'http://proxy.internal:3128',
+        retries: 2,
+        retryDelayMs: 1000,
+      });
+      expect(resolveRequest({ method: 'GET', headers: {}, auth: { type: 'bearer', token: '${API_TOKEN}' } }, 'x').headers).toEqual({
+        Authorization: 'Bearer tok-123',
+      });
+    });
+
+    it('should use FETCH_TIMEOUT_MS and FETCH_PROXY as request defaults', async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single', FETCH_TIMEOUT_MS: '2500', FETCH_PROXY: 'http://proxy.internal:3128' });
+      const { config } = await import('./config.js');
+
+      expect(config.watches[0].request).toMatchObject({ method: 'GET', timeoutMs: 2500, proxy: 'http://proxy.internal:3128' });
+    });
+
+    it('should not send requests through HTTPS_PROXY or HTTP_PROXY', async () => {
+      mockEnv({ ...baseEnv, JSON_URL: 'http://test.com/single', HTTPS_PROXY: 'http://proxy.internal:3128', HTTP_PROXY: 'http://proxy.internal:3128' });
+      const { config } = await import('./config.js');
+
+      expect(config.watches[0].request.proxy).toBeUndefined();
+    });
+
+    it('should reject a request body without a method that sends one', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const watchList = (request: object) => JSON.stringify({ watches: [{ id: 'feed', url: 'https://example.com/feed.json', request }] });
+
+      expect(() => parseWatchList(watchList({ body: { query: 'x' } }), 'watches.json')).toThrow(
+        'watches.0.request.body: A request body needs the POST, PUT or PATCH method'
+      );
+      expect(() => parseWatchList(watchList({ method: 'DELETE', body: 'x' }), 'watches.json')).toThrow('watches.0.request.body');
+      expect(parseWatchList(watchList({ method: 'POST', body: 'x' }), 'watches.json').watches[0].request?.body).toBe('x');
+    });
+
+    it('should reject references to unset environment variables', async () => {
+      const filePath = writeWatchList('watches.yaml', `
+watches:
+  - id: feed
+    url: https://example.com/feed.json
+    request:
+      headers:
+        Authorization: Bearer \${MISSING_TOKEN}
+`);
+      mockEnv({ ...baseEnv, WATCHLIST_FILE: filePath });
+
+      await expect(import('./config.js')).rejects.toThrow(
+        'Watch "feed" references the environment variable MISSING_TOKEN, which is not set'
+      );
+    });
+
+    it('should parse per-watch notification channels', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const watchList = parseWatchList(`
+watches:
+  - id: feed
+    url: https://example.com/feed.json
+    notify:
+      channels:
+        - type: discord
+          webhookUrl: https://discord.com/api/webhooks/1/abc
+        - type: webhook
+          url: https://example.com/hook
+          headers:
+            Authorization: Bearer secret
+`, 'watches.yaml');
+      expect(watchList.watches[0].notify.channels).toEqual([
+        { type: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/abc' },
+        { type: 'webhook', url: 'https://example.com/hook', headers: { Authorization: 'Bearer secret' } },
+      ]);
+    });
+
+    it('should parse the minimum severity of a channel', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const channel = (minSeverity: string) => JSON.stringify({
+        watches: [{ id: 'feed', url: 'https://example.com/feed.json', notify: { channels: [{ type: 'telegram', chatId: 'on-call', minSeverity }] } }],
+      });
+      expect(parseWatchList(channel('critical'), 'watches.json').watches[0].notify.channels).toEqual([
+        { type: 'telegram', chatId: 'on-call', minSeverity: 'critical' },
+      ]);
+      expect(() => parseWatchList(channel('urgent'), 'watches.json')).toThrow('watches.0.notify.channels.0.minSeverity');
+    });
+
+    it('should reject unknown channel types', async () => {
+      const { parseWatchList } = await importWithEnv();
+      const content = JSON.stringify({
+        watches: [{ id: 'feed', url: 'https://example.com/feed.json', notify: { channels: [{ type: 'pager' }] } }],
+      });
+      expect(() => parseWatchList(content, 'watches.json')).toThrow('watches.0.notify.channels.0.type');
+    });
+
+    it('should load inline, file and inferred schemas', async () => {
+      const filePath = writeWatchList('watches.yaml', `
+watches:
+  - id: inline
+    url: https://example.com/inline.json
+    schema:
+      type: object
+      required: [items]
+  - id: file
+    url: https://example.com/file.json
+    schema: ./feed.schema.json
+  - id: inferred
+    url: https://example.com/inferred.json
+    schema: infer
+`);
+      fs.writeFileSync(path.join(path.dirname(filePath), 'feed.schema.json'), JSON.stringify({ type: 'array' }));
+      mockEnv({ ...baseEnv, WATCHLIST_FILE: filePath });
+      const { config } = await import('./config.js');
+
+      expect(config.watches.map((watch) => watch.schema)).toEqual([
+        { type: 'object', required: ['items'] },
+        { type: 'array' },
+        'infer',
+      ]);
+    });
+
+    it('should reject invalid and unreadable schemas', async () => {
+      const { resolveSchema } = await importWithEnv();
+
+      expect(() => resolveSchema({ type: 'bogus' }, '/', 'Watch "feed"')).toThrow('Watch "feed" has an invalid JSON Schema');
+      expect(() => resolveSchema('./missing.schema.json', os.tmpdir(), 'Watch "feed"')).toThrow(
+        'Watch "feed" has an unreadable schema file'
+      );
+    });
+
+    it('should reject watches without a cron when CHECK_INTERVAL_CRON is not set', async () => {
+      const filePath = writeWatchList('watches.yaml', 'watches:\n  - id: feed\n    url: https://example.com/feed.json\n');
+      const { CHECK_INTERVAL_CRON: _cron, ...envWithoutCron } = baseEnv;
+      mockEnv({ ...envWithoutCron, WATCHLIST_FILE: filePath });
+
+      await expect(import('./config.js')).rejects.toThrow(
+        'Watch "feed" has no cron and CHECK_INTERVAL_CRON is not set'
+      );
+    });
+  });
+
+  describe('AI Provider', () => {
+    const envWithoutKey = {
+      JSON_URL: 'http://test.com/single',
+      TELEGRAM_BOT_TOKEN: 'bot:abc',
+      TELEGRAM_CHAT_ID: 'chat',
+      CHECK_INTERVAL_CRON: '*/5 * * * *',
+    };
+
+    it('should select the provider, model and key', async () => {
+      mockEnv({ ...envWithoutKey, AI_PROVIDER: 'anthropic', ANTHROPIC_API_KEY: 'sk-ant' });
+      const { config } = await import('./config.js');
+      expect(config.ai).toEqual({ provider: 'anthropic', model: 'claude-3-5-haiku-latest', apiKey: 'sk-ant', baseUrl: undefined });
+    });
+
+    it('should keep OPENAI_MODEL_NAME for OpenAI and let AI_MODEL override it', async () => {
+      mockEnv({ ...envWithoutKey, OPENAI_API_KEY: 'sk-openai', OPENAI_MODEL_NAME: 'gpt-4o' });
+      expect((await import('./config.js')).config.ai?.model).toBe('gpt-4o');
+
+      vi.resetModules();
+      mockEnv({ ...envWithoutKey, OPENAI_API_KEY: 'sk-openai', OPENAI_MODEL_NAME: 'gpt-4o', AI_MODEL: 'gpt-4.1' });
+      expect((await import('./config.js')).config.ai?.model).toBe('gpt-4.1');
+    });
+
+    it('should not need a key for local servers', async () => {
+      mockEnv({ ...envWithoutKey, AI_PROVIDER: 'openai-compatible', AI_BASE_URL: 'http://localhost:1234/v1', AI_MODEL: 'qwen2.5-7b' });
+      const { config } = await import('./config.js');
+      expect(config.ai).toEqual({ provider: 'openai-compatible', model: 'qwen2.5-7b', apiKey: undefined, baseUrl: 'http://localhost:1234/v1' });
+    });
+
+    it('should require the key, base URL and model the provider needs', async () => {
+      mockEnv(envWithoutKey);
+      await expect(import('./config.js')).rejects.toThrow('Missing required environment variable: OPENAI_API_KEY');
+
+      vi.resetModules();
+      mockEnv({ ...envWithoutKey, AI_PROVIDER: 'openai-compatible', AI_MODEL: 'qwen2.5-7b' });
+      await expect(import('./config.js')).rejects.toThrow('AI_PROVIDER=openai-compatible requires AI_BASE_URL and AI_MODEL');
+
+      vi.resetModules();
+      mockEnv({ ...envWithoutKey, AI_PROVIDER: 'gemini' });
+      await expect(import('./config.js')).rejects.toThrow(
+        'AI_PROVIDER must be "openai", "anthropic", "openai-compatible", "ollama" or "none", got "gemini"'
+      );
+    });
+
+    it('should disable the AI without needing a key', async () => {
+      mockEnv({ ...envWithoutKey, AI_PROVIDER: 'none' });
+      const { config } = await import('./config.js');
+      expect(config.ai).toBeNull();
+    });
+
+    it('should not need AI settings when every watch decides by its rules alone', async () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-notify-config-'));
+      const filePath = path.join(dir, 'watches.yaml');
+      fs.writeFileSync(filePath, `
+watches:
+  - id: releases
+    url: https://example.com/releases.json
+    rules:
+      - path: releases
+        when: grew
+    rulesMode: standalone
+`);
+      mockEnv({ ...envWithoutKey, WATCHLIST_FILE: filePath });
+      const { config } = await import('./config.js');
+      expect(config.ai?.apiKey).toBeUndefined();
+    });
+  });
+});
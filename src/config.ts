@@ -1,7 +1,17 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import YAML from 'yaml';
 import { z } from 'zod';
+import { parseArrayKey } from './comparer.js';
+import { parsePathPattern } from './pathMatcher.js';
+import { ruleSchema, type Rule, type RulesMode } from './rules.js';
+import { type FetchRequest } from './fetcher.js';
+import { compileSchema, type JsonSchema } from './schema.js';
+import { AI_API_KEY_VARS, AI_PROVIDERS, DEFAULT_AI_MODELS, type AiSettings } from './aiProvider.js';
+import { configureLogger, logger, LOG_FORMATS, LOG_LEVELS } from './logger.js';
+import { SEVERITY_LEVELS } from './severity.js';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -18,32 +28,498 @@ const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 const projectRoot = path.resolve(__dirname, '..'); // Assumes config.ts is in src/
 
-export const config = {
-  jsonUrl: getEnvVar('JSON_URL'),
-  openaiApiKey: getEnvVar('OPENAI_API_KEY'),
-  openaiModelName: getEnvVar('OPENAI_MODEL_NAME', false) || 'gpt-4o-mini',
+// Turns a parser that throws into a zod refinement reporting its error message
+function refineWith(parse: (value: string) => unknown) {
+  return (value: string, ctx: z.RefinementCtx) => {
+    try {
+      parse(value);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  };
+}
+
+// Routing options every channel has
+const channelRouting = {
+  minSeverity: z.enum(SEVERITY_LEVELS).optional(), // Change notifications of a lower severity are not sent
+};
+
+// Zod schema for the notification channels a watch can route to
+export const channelSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('telegram'),
+    chatId: z.string().min(1).optional(), // Falls back to TELEGRAM_CHAT_ID
+    ...channelRouting,
+  }),
+  z.object({ type: z.literal('slack'), webhookUrl: z.string().url(), ...channelRouting }),
+  z.object({ type: z.literal('discord'), webhookUrl: z.string().url(), ...channelRouting }),
+  z.object({
+    type: z.literal('webhook'),
+    url: z.string().url(),
+    headers: z.record(z.string()).default({}),
+    ...channelRouting,
+  }),
+  z.object({
+    type: z.literal('email'),
+    to: z.array(z.string().email()).min(1),
+    from: z.string().min(1).optional(), // Falls back to SMTP_FROM
+    ...channelRouting,
+  }),
+]);
+
+export type ChannelConfig = z.infer<typeof channelSchema>;
+
+// Zod schema for how a watch's endpoint is requested. Strings may reference environment
+// variables as ${NAME}, so secrets stay out of the watch-list file.
+export const requestSchema = z
+  .object({
+    method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE']).default('GET'),
+    headers: z.record(z.string()).default({}),
+    body: z.union([z.string(), z.record(z.unknown()), z.array(z.unknown())]).optional(), // Objects are sent as JSON
+    auth: z
+      .discriminatedUnion('type', [
+        z.object({ type: z.literal('bearer'), token: z.string().min(1) }),
+        z.object({ type: z.literal('basic'), username: z.string().min(1), password: z.string() }),
+        z.object({ type: z.literal('header'), name: z.string().min(1), value: z.string().min(1) }), // API key header
+      ])
+      .optional(),
+    timeoutMs: z.number().int().positive().optional(), // Falls back to FETCH_TIMEOUT_MS
+    proxy: z.string().url().optional(), // Falls back to FETCH_PROXY
+    retries: z.number().int().min(0).optional(), // Falls back to FETCH_RETRIES
+    retryDelayMs: z.number().int().positive().optional(), // Falls back to FETCH_RETRY_DELAY_MS
+  })
+  // fetch cannot send a body with GET, and a failure on every check would look like an outage
+  .refine((request) => request.body === undefined || !['GET', 'DELETE'].includes(request.method), {
+    message: 'A request body needs the POST, PUT or PATCH method',
+    path: ['body'],
+  });
+
+export type RequestConfig = z.infer<typeof requestSchema>;
+
+// Schema for a single entry of the watch-list file
+export const watchSchema = z.object({
+  id: z.string().regex(/^[A-Za-z0-9_-]+$/, 'Watch id may only contain letters, digits, "_" and "-"'),
+  url: z.string().url(),
+  cron: z.string().min(1).optional(), // Falls back to CHECK_INTERVAL_CRON
+  stateFile: z.string().min(1).optional(), // Falls back to ./state/<id>.json
+  promptContext: z.string().optional(), // Falls back to OPENAI_CUSTOM_PROMPT_CONTEXT
+  request: requestSchema.optional(),
+  alertAfterFailures: z.number().int().positive().optional(), // Falls back to ALERT_AFTER_FAILURES
+  // JSON Schema every response must match: inline, a path to a schema file, or "infer" to learn it from the first snapshot
+  schema: z.union([z.string().min(1), z.record(z.unknown())]).optional(),
+  // Identity keys for arrays of objects, e.g. "items[*].id"
+  arrayKeys: z.array(z.string().superRefine(refineWith(parseArrayKey))).default([]),
+  // Path patterns applied to both states before comparing, e.g. "generatedAt" or "**.requestId"
+  include: z.array(z.string().superRefine(refineWith(parsePathPattern))).default([]),
+  ignore: z.array(z.string().superRefine(refineWith(parsePathPattern))).default([]),
+  // Deterministic significance rules, either instead of or in front of the AI
+  rules: z.array(ruleSchema.superRefine((rule, ctx) => refineWith(parsePathPattern)(rule.path, ctx))).default([]),
+  rulesMode: z.enum(['standalone', 'prefilter']).default('prefilter'),
+  notify: z
+    .object({
+      telegramChatId: z.string().min(1).optional(), // Shorthand for a single Telegram channel
+      channels: z.array(channelSchema).min(1).optional(), // Falls back to the channels from the environment
+    })
+    .default({}),
+});
+
+// State file of a watch-list entry, relative to the watch-list file
+function getStateFile(watch: Pick<z.infer<typeof watchSchema>, 'id' | 'stateFile'>): string {
+  return watch.stateFile || `./state/${watch.id}.json`;
+}
+
+// Define the schema for the watch-list file (YAML or JSON)
+export const configSchema = z.object({
+  watches: z
+    .array(watchSchema)
+    .min(1)
+    .refine(
+      (watches) => new Set(watches.map((w) => w.id)).size === watches.length,
+      { message: 'Watch ids must be unique' }
+    )
+    .refine(
+      // All paths are relative to the same directory, so resolving against the current one finds the same
+      // duplicates. Snapshots and side files are named after the path without ".json", so compare that.
+      (watches) =>
+        new Set(watches.map((w) => path.resolve(getStateFile(w)).replace(/\.json$/i, ''))).size === watches.length,
+      { message: 'Watches must not share a state file' }
+    ),
+});
+
+export type WatchListFile = z.infer<typeof configSchema>;
+
+/**
+ * A fully resolved watch: every optional field of the watch-list entry has been
+ * filled in from the environment defaults and paths are absolute.
+ */
+export interface WatchConfig {
+  id: string;
+  url: string;
+  request: FetchRequest;
+  alertAfterFailures: number; // Consecutive failed checks before an "endpoint down" alert
+  schema?: JsonSchema | 'infer'; // Responses not matching it trigger a "schema violation" alert
+  cron: string;
+  stateFilePath: string;
+  promptContext: string;
+  arrayKeys: string[];
+  include: string[];
+  ignore: string[];
+  rules: Rule[];
+  rulesMode: RulesMode;
+  channels: ChannelConfig[];
+}
+
+const watchListFile = getEnvVar('WATCHLIST_FILE', false);
+const isWatchListMode = Boolean(watchListFile);
+
+const envDefaults = {
+  jsonUrl: getEnvVar('JSON_URL', !isWatchListMode),
   openaiCustomPromptContext: getEnvVar('OPENAI_CUSTOM_PROMPT_CONTEXT', false),
-  telegramBotToken: getEnvVar('TELEGRAM_BOT_TOKEN'),
-  telegramChatId: getEnvVar('TELEGRAM_CHAT_ID'),
-  checkIntervalCron: getEnvVar('CHECK_INTERVAL_CRON'),
-  telegramNotifyOnStart: getEnvVar('TELEGRAM_NOTIFY_ON_START', false).toLowerCase() === 'true',
+  telegramBotToken: getEnvVar('TELEGRAM_BOT_TOKEN', false), // Only required by Telegram channels
+  telegramChatId: getEnvVar('TELEGRAM_CHAT_ID', false),
+  slackWebhookUrl: getEnvVar('SLACK_WEBHOOK_URL', false),
+  discordWebhookUrl: getEnvVar('DISCORD_WEBHOOK_URL', false),
+  webhookUrl: getEnvVar('WEBHOOK_URL', false),
+  emailTo: getEnvVar('EMAIL_TO', false), // Comma-separated recipients
+  checkIntervalCron: getEnvVar('CHECK_INTERVAL_CRON', !isWatchListMode),
+  fetchTimeoutMs: Number(getEnvVar('FETCH_TIMEOUT_MS', false) || 30000),
+  fetchRetries: Number(getEnvVar('FETCH_RETRIES', false) || 2),
+  fetchRetryDelayMs: Number(getEnvVar('FETCH_RETRY_DELAY_MS', false) || 1000),
+  alertAfterFailures: Number(getEnvVar('ALERT_AFTER_FAILURES', false) || 3),
+  jsonSchema: getEnvVar('JSON_SCHEMA', false), // Schema file or "infer", for the watch configured through JSON_URL
+  // Not HTTPS_PROXY / HTTP_PROXY: those are often set for other tools and would send internal endpoints through the proxy
+  proxy: getEnvVar('FETCH_PROXY', false),
   stateFilePath: path.resolve(
     projectRoot,
     getEnvVar('STATE_FILE_PATH', false) || './lastState.json'
   ),
+};
+
+// SMTP server used by email channels
+const smtp = {
+  host: getEnvVar('SMTP_HOST', false),
+  port: Number(getEnvVar('SMTP_PORT', false) || 587),
+  secure: getEnvVar('SMTP_SECURE', false).toLowerCase() === 'true', // Implicit TLS (usually port 465)
+  user: getEnvVar('SMTP_USER', false),
+  pass: getEnvVar('SMTP_PASS', false),
+  from: getEnvVar('SMTP_FROM', false),
+};
+
+// Channels configured through TELEGRAM_CHAT_ID, SLACK_WEBHOOK_URL, DISCORD_WEBHOOK_URL, WEBHOOK_URL and EMAIL_TO
+function getEnvChannels(): ChannelConfig[] {
+  const channels: ChannelConfig[] = [];
+  if (envDefaults.telegramChatId) channels.push({ type: 'telegram', chatId: envDefaults.telegramChatId });
+  if (envDefaults.slackWebhookUrl) channels.push({ type: 'slack', webhookUrl: envDefaults.slackWebhookUrl });
+  if (envDefaults.discordWebhookUrl) channels.push({ type: 'discord', webhookUrl: envDefaults.discordWebhookUrl });
+  if (envDefaults.webhookUrl) channels.push({ type: 'webhook', url: envDefaults.webhookUrl, headers: {} });
+  if (envDefaults.emailTo) {
+    channels.push({ type: 'email', to: envDefaults.emailTo.split(',').map((address) => address.trim()).filter(Boolean) });
+  }
+  return channels;
+}
+
+// Checks the settings a channel depends on that cannot be validated by the schema alone
+function validateChannels(channels: ChannelConfig[], owner: string) {
+  if (channels.some((channel) => channel.type === 'telegram') && !envDefaults.telegramBotToken) {
+    throw new Error(`${owner} has a Telegram channel but TELEGRAM_BOT_TOKEN is not set`);
+  }
+  if (channels.some((channel) => channel.type === 'telegram' && !channel.chatId && !envDefaults.telegramChatId)) {
+    throw new Error(`${owner} has a Telegram channel without chatId and TELEGRAM_CHAT_ID is not set`);
+  }
+  if (channels.some((channel) => channel.type === 'email') && !smtp.host) {
+    throw new Error(`${owner} has an email channel but SMTP_HOST is not set`);
+  }
+  if (channels.some((channel) => channel.type === 'email' && !channel.from) && !smtp.from) {
+    throw new Error(`${owner} has an email channel without "from" and SMTP_FROM is not set`);
+  }
+}
+
+/**
+ * Replaces ${NAME} references with the values of the environment variables.
+ * @param text The text to interpolate.
+ * @param owner Named in the error message, e.g. 'Watch "prices"'.
+ * @throws If a referenced variable is not set.
+ */
+export function interpolateEnv(text: string, owner: string): string {
+  return text.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`${owner} references the environment variable ${name}, which is not set`);
+    }
+    return value;
+  });
+}
+
+// Interpolates every string inside a JSON value
+function interpolateDeep(value: unknown, owner: string): unknown {
+  if (typeof value === 'string') return interpolateEnv(value, owner);
+  if (Array.isArray(value)) return value.map((item) => interpolateDeep(item, owner));
+  if (typeof value === 'object' && value !== null) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolateDeep(item, owner)]));
+  }
+  return value;
+}
+
+/**
+ * Turns the request settings of a watch into the request the fetcher sends: environment variables
+ * are interpolated, auth becomes a header and object bodies are serialized as JSON.
+ */
+export function resolveRequest(request: RequestConfig | undefined, owner: string): FetchRequest {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(request?.headers ?? {})) {
+    headers[name] = interpolateEnv(value, owner);
+  }
+
+  const auth = request?.auth && (interpolateDeep(request.auth, owner) as NonNullable<RequestConfig['auth']>);
+  if (auth?.type === 'bearer') {
+    headers['Authorization'] = `Bearer ${auth.token}`;
+  } else if (auth?.type === 'basic') {
+    headers['Authorization'] = `Basic ${Buffer.from(`${auth.username}:${auth.password}`).toString('base64')}`;
+  } else if (auth?.type === 'header') {
+    headers[auth.name] = auth.value;
+  }
+
+  let body: string | undefined;
+  if (typeof request?.body === 'string') {
+    body = interpolateEnv(request.body, owner);
+  } else if (request?.body !== undefined) {
+    body = JSON.stringify(interpolateDeep(request.body, owner));
+    // Respect a Content-Type given in any letter case
+    if (!Object.keys(headers).some((name) => name.toLowerCase() === 'content-type')) {
+      headers['Content-Type'] = 'application/json';
+    }
+  }
+
+  const proxy = request?.proxy ? interpolateEnv(request.proxy, owner) : envDefaults.proxy;
+  return {
+    method: request?.method ?? 'GET',
+    headers,
+    body,
+    timeoutMs: request?.timeoutMs ?? envDefaults.fetchTimeoutMs,
+    proxy: proxy || undefined,
+    retries: request?.retries ?? envDefaults.fetchRetries,
+    retryDelayMs: request?.retryDelayMs ?? envDefaults.fetchRetryDelayMs,
+  };
+}
+
+/**
+ * Loads the JSON Schema of a watch.
+ * @param schema An inline schema, a path to a schema file, or "infer".
+ * @param baseDir Directory a relative schema file path is resolved against.
+ * @param owner Named in the error message, e.g. 'Watch "prices"'.
+ * @throws If the file cannot be read or does not hold a valid schema.
+ */
+export function resolveSchema(
+  schema: string | Record<string, unknown> | undefined,
+  baseDir: string,
+  owner: string
+): JsonSchema | 'infer' | undefined {
+  if (!schema) return undefined;
+  if (schema === 'infer') return 'infer';
+  let document = schema;
+  if (typeof document === 'string') {
+    const filePath = path.resolve(baseDir, document);
+    try {
+      document = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as Record<string, unknown>;
+    } catch (error) {
+      throw new Error(`${owner} has an unreadable schema file ${filePath}: ${(error as Error).message}`);
+    }
+  }
+  try {
+    compileSchema(document);
+  } catch (error) {
+    throw new Error(`${owner} has an invalid JSON Schema: ${(error as Error).message}`);
+  }
+  return document;
+}
+
+/**
+ * Parses and validates the contents of a watch-list file.
+ * @param content The raw file contents.
+ * @param fileName Used to pick the parser (.json or .yaml/.yml) and for error messages.
+ * @returns The validated watch list.
+ */
+export function parseWatchList(content: string, fileName: string): WatchListFile {
+  const raw: unknown = fileName.toLowerCase().endsWith('.json')
+    ? JSON.parse(content)
+    : YAML.parse(content);
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid watch-list file ${fileName}: ${issues}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Resolves watch-list entries against the environment defaults.
+ * @param watchList The validated watch list.
+ * @param baseDir Directory relative state file paths are resolved against.
+ * @returns The resolved watches.
+ */
+export function resolveWatches(watchList: WatchListFile, baseDir: string): WatchConfig[] {
+  return watchList.watches.map((entry) => {
+    const cron = entry.cron || envDefaults.checkIntervalCron;
+    if (!cron) {
+      throw new Error(`Watch "${entry.id}" has no cron and CHECK_INTERVAL_CRON is not set`);
+    }
+    const channels = entry.notify.channels ?? (
+      entry.notify.telegramChatId
+        ? [{ type: 'telegram' as const, chatId: entry.notify.telegramChatId }]
+        : getEnvChannels()
+    );
+    if (channels.length === 0) {
+      throw new Error(`Watch "${entry.id}" has no notification channels and none are configured in the environment`);
+    }
+    validateChannels(channels, `Watch "${entry.id}"`);
+    return {
+      id: entry.id,
+      url: interpolateEnv(entry.url, `Watch "${entry.id}"`),
+      request: resolveRequest(entry.request, `Watch "${entry.id}"`),
+      alertAfterFailures: entry.alertAfterFailures ?? envDefaults.alertAfterFailures,
+      schema: resolveSchema(entry.schema, baseDir, `Watch "${entry.id}"`),
+      cron,
+      stateFilePath: path.resolve(baseDir, getStateFile(entry)),
+      promptContext: entry.promptContext ?? envDefaults.openaiCustomPromptContext,
+      arrayKeys: entry.arrayKeys,
+      include: entry.include,
+      ignore: entry.ignore,
+      rules: entry.rules,
+      rulesMode: entry.rulesMode,
+      channels,
+    };
+  });
+}
+
+// Reads an environment variable that must be one of a few values
+function parseChoice<T extends string>(key: string, choices: readonly T[], defaultValue: T): T {
+  const value = getEnvVar(key, false) || defaultValue;
+  if (!(choices as readonly string[]).includes(value)) {
+    const expected = choices.map((choice) => `"${choice}"`).join(', ').replace(/, ([^,]*)$/, ' or $1');
+    throw new Error(`${key} must be ${expected}, got "${value}"`);
+  }
+  return value as T;
+}
+
+/**
+ * Reads the AI provider settings. Keys, models and base URLs are only required if a watch uses
+ * the AI, i.e. does not decide by its rules alone.
+ * @returns The settings, or null if the AI is disabled with AI_PROVIDER=none.
+ */
+function parseAiSettings(watches: WatchConfig[]): AiSettings | null {
+  const required = watches.some((watch) => watch.rules.length === 0 || watch.rulesMode !== 'standalone');
+  const provider = parseChoice('AI_PROVIDER', [...AI_PROVIDERS, 'none'], 'openai');
+  if (provider === 'none') return null; // Changes are summarized from the diff alone
+  const model =
+    getEnvVar('AI_MODEL', false) ||
+    (provider === 'openai' ? getEnvVar('OPENAI_MODEL_NAME', false) : '') || // Predates AI_MODEL
+    DEFAULT_AI_MODELS[provider] ||
+    '';
+  const apiKey = getEnvVar(AI_API_KEY_VARS[provider], required && (provider === 'openai' || provider === 'anthropic'));
+  const baseUrl = getEnvVar('AI_BASE_URL', false);
+  if (required && provider === 'openai-compatible' && (!model || !baseUrl)) {
+    throw new Error('AI_PROVIDER=openai-compatible requires AI_BASE_URL and AI_MODEL');
+  }
+  return { provider, model, apiKey: apiKey || undefined, baseUrl: baseUrl || undefined };
+}
+
+function loadWatches(): WatchConfig[] {
+  if (!isWatchListMode) {
+    // Single watch configured entirely through environment variables
+    const channels = getEnvChannels();
+    if (channels.length === 0) {
+      throw new Error(
+        'Missing notification target: set TELEGRAM_CHAT_ID, SLACK_WEBHOOK_URL, DISCORD_WEBHOOK_URL, WEBHOOK_URL or EMAIL_TO'
+      );
+    }
+    validateChannels(channels, 'The environment');
+    return [
+      {
+        id: 'default',
+        url: envDefaults.jsonUrl,
+        request: resolveRequest(undefined, 'The environment'),
+        alertAfterFailures: envDefaults.alertAfterFailures,
+        schema: resolveSchema(envDefaults.jsonSchema, projectRoot, 'The environment'),
+        cron: envDefaults.checkIntervalCron,
+        stateFilePath: envDefaults.stateFilePath,
+        promptContext: envDefaults.openaiCustomPromptContext,
+        arrayKeys: [],
+        include: [],
+        ignore: [],
+        rules: [],
+        rulesMode: 'prefilter',
+        channels,
+      },
+    ];
+  }
+  const filePath = path.resolve(projectRoot, watchListFile);
+  const watchList = parseWatchList(fs.readFileSync(filePath, 'utf-8'), filePath);
+  return resolveWatches(watchList, path.dirname(filePath));
+}
+
+const watches = loadWatches();
+
+export const config = {
+  ...envDefaults,
+  // The model that summarizes changes: OpenAI, Anthropic, an OpenAI-compatible server or Ollama. Null if disabled
+  ai: parseAiSettings(watches),
+  // Diffs over the budget are summarized in chunks, whose summaries are then merged
+  aiChunking: {
+    maxTokens: Number(getEnvVar('AI_MAX_DIFF_TOKENS', false) || 4000), // Budget of the diff in one request
+    maxChunks: Number(getEnvVar('AI_MAX_CHUNKS', false) || 8), // Changes beyond this many chunks are left out
+  },
+  // Summaries of identical diffs are reused for this long instead of asking the AI again; 0 disables the cache
+  aiCacheTtlMs: Number(getEnvVar('AI_CACHE_TTL_SECONDS', false) || 86400) * 1000,
+  telegramNotifyOnStart: getEnvVar('TELEGRAM_NOTIFY_ON_START', false).toLowerCase() === 'true',
+  smtp,
+  // Retries of outgoing notifications
+  delivery: {
+    maxAttempts: Number(getEnvVar('NOTIFY_MAX_ATTEMPTS', false) || 3), // Attempts per check run
+    baseDelayMs: Number(getEnvVar('NOTIFY_RETRY_BASE_DELAY_MS', false) || 1000), // Doubled after every attempt
+    maxDelayMs: Number(getEnvVar('NOTIFY_RETRY_MAX_DELAY_MS', false) || 30000), // Longer waits are left to the next run
+    deadLetterAfter: Number(getEnvVar('NOTIFY_DEAD_LETTER_AFTER', false) || 10), // Check runs before giving up on a message
+  },
+  // Where state, history and the delivery log are kept: "file" (next to each state file) or "sqlite"
+  stateStore: parseChoice('STATE_STORE', ['file', 'sqlite'] as const, 'file'),
+  stateDbPath: path.resolve(projectRoot, getEnvVar('STATE_DB_PATH', false) || './state.db'),
+  // Snapshot history kept per watch
+  snapshots: {
+    maxCount: Number(getEnvVar('SNAPSHOT_RETENTION_COUNT', false) || 100), // 0 keeps every snapshot
+    maxAgeDays: Number(getEnvVar('SNAPSHOT_RETENTION_DAYS', false) || 0), // 0 keeps snapshots regardless of age
+    compress: getEnvVar('SNAPSHOT_COMPRESS', false).toLowerCase() === 'true', // gzip new snapshots
+  },
+  // Optional HTTP status and control API, running alongside the scheduler
+  httpServer: {
+    port: Number(getEnvVar('HTTP_PORT', false) || 0), // 0 disables the server
+    host: getEnvVar('HTTP_HOST', false) || '0.0.0.0',
+    apiToken: getEnvVar('HTTP_API_TOKEN', false), // Required as Bearer token by everything but /healthz, if set
+  },
+  // Minimum level and output format ("text" or one JSON object per line) of the logs
+  logLevel: parseChoice('LOG_LEVEL', LOG_LEVELS, 'info'),
+  logFormat: parseChoice('LOG_FORMAT', LOG_FORMATS, 'text'),
+  watchListFile,
+  watches,
 } as const;
 
-console.log('Configuration loaded:');
-console.log(`- JSON URL: ${config.jsonUrl}`);
-console.log(`- Check Interval: ${config.checkIntervalCron}`);
-console.log(`- State File Path: ${config.stateFilePath}`);
-console.log(`- OpenAI Model: ${config.openaiModelName}`);
-console.log(`- Notify on Start: ${config.telegramNotifyOnStart}`);
-// Avoid logging sensitive keys like API keys 
+configureLogger({ level: config.logLevel, format: config.logFormat });
 
-// Define the schema for environment variables
-export const configSchema = z.object({
-  JSON_URL: z.string().url(),
-  OPENAI_API_KEY: z.string().min(1),
-  // ... existing code ...
-}); 
\ No newline at end of file
+logger.info('Configuration loaded:');
+if (config.watchListFile) {
+  logger.info(`- Watch List: ${config.watchListFile}`);
+}
+for (const watch of config.watches) {
+  logger.info(`- Watch "${watch.id}": ${watch.url} (${watch.cron}) -> ${watch.stateFilePath} [${watch.channels.map((c) => c.type).join(', ')}]`);
+}
+logger.info(
+  config.ai
+    ? `- AI: ${config.ai.provider} ${config.ai.model}${config.ai.baseUrl ? ` at ${config.ai.baseUrl}` : ''}`
+    : '- AI: disabled, changes are summarized from the diff'
+);
+logger.info(`- Notify on Start: ${config.telegramNotifyOnStart}`);
+if (config.httpServer.port) {
+  logger.info(`- HTTP API: ${config.httpServer.host}:${config.httpServer.port}${config.httpServer.apiToken ? ' (token required)' : ''}`);
+}
+// Avoid logging sensitive keys like API keys
@@ -0,0 +1,304 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  deliverEvent,
+  deliverWithRetry,
+  flushOutbox,
+  getRetryInfo,
+  queueFailures,
+  readOutbox,
+  type RetryOptions,
+} from './delivery.js';
+import type { NotificationChannel, NotificationEvent } from './notifier.js';
+import { readLastState } from './storage.js';
+import { notificationsTotal } from './metrics.js';
+
+vi.mock('./config.js', () => ({
+  config: {
+    stateFilePath: '/tmp/unused-state.json',
+    delivery: { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000, deadLetterAfter: 10 },
+    snapshots: { maxCount: 10, maxAgeDays: 0, compress: false },
+  },
+}));
+
+const event: NotificationEvent = {
+  kind: 'change',
+  watchId: 'prices',
+  title: 'JSON Update Detected: prices',
+  summary: 'Price went up.',
+  changes: [{ op: 'changed', path: '/price', oldValue: 1, newValue: 2 }],
+  timestamp: '2025-01-01T00:00:00.000Z',
+};
+
+// Telegram API error as thrown by node-telegram-bot-api
+const telegramError = (errorCode: number, retryAfter?: number) =>
+  Object.assign(new Error(`ETELEGRAM: ${errorCode}`), {
+    code: 'ETELEGRAM',
+    response: {
+      body: {
+        ok: false,
+        error_code: errorCode,
+        parameters: retryAfter === undefined ? undefined : { retry_after: retryAfter },
+      },
+    },
+  });
+
+const channel = (name: string, send: NotificationChannel['send']): NotificationChannel => ({ id: name, name, send });
+
+describe('delivery', () => {
+  let sleep: ReturnType<typeof vi.fn>;
+  let options: RetryOptions;
+
+  beforeEach(() => {
+    sleep = vi.fn().mockResolvedValue(undefined);
+    options = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000, deadLetterAfter: 3, sleep };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getRetryInfo', () => {
+    it('should honor Telegram retry_after on 429', () => {
+      expect(getRetryInfo(telegramError(429, 12))).toEqual({ retryable: true, retryAfterMs: 12000 });
+    });
+
+    it('should treat Telegram client errors as permanent', () => {
+      expect(getRetryInfo(telegramError(400)).retryable).toBe(false);
+    });
+
+    it('should classify HTTP and SMTP errors', () => {
+      expect(getRetryInfo({ status: 503 })).toEqual({ retryable: true, retryAfterMs: undefined });
+      expect(getRetryInfo({ status: 429, retryAfterMs: 5000 })).toEqual({ retryable: true, retryAfterMs: 5000 });
+      expect(getRetryInfo({ status: 404 }).retryable).toBe(false);
+      expect(getRetryInfo({ responseCode: 451 }).retryable).toBe(true);
+      expect(getRetryInfo({ responseCode: 550 }).retryable).toBe(false);
+    });
+
+    it('should retry network errors', () => {
+      expect(getRetryInfo(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))).toEqual({ retryable: true });
+    });
+  });
+
+  describe('deliverWithRetry', () => {
+    it('should back off exponentially until the send succeeds', async () => {
+      const send = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValueOnce(undefined);
+
+      await deliverWithRetry(channel('telegram:1', send), event, options);
+
+      expect(send).toHaveBeenCalledTimes(3);
+      expect(sleep.mock.calls).toEqual([[1000], [2000]]);
+    });
+
+    it('should wait as long as Telegram asks on 429', async () => {
+      const send = vi.fn().mockRejectedValueOnce(telegramError(429, 3)).mockResolvedValueOnce(undefined);
+
+      await deliverWithRetry(channel('telegram:1', send), event, options);
+
+      expect(sleep).toHaveBeenCalledWith(3000);
+    });
+
+    it('should give up without waiting when the requested wait is too long', async () => {
+      const error = telegramError(429, 120);
+      const send = vi.fn().mockRejectedValue(error);
+
+      await expect(deliverWithRetry(channel('telegram:1', send), event, options)).rejects.toBe(error);
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(sleep).not.toHaveBeenCalled();
+    });
+
+    it('should not retry permanent errors', async () => {
+      const send = vi.fn().mockRejectedValue(telegramError(400));
+
+      await expect(deliverWithRetry(channel('telegram:1', send), event, options)).rejects.toThrow('ETELEGRAM: 400');
+      expect(send).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rethrow after the last attempt', async () => {
+      const send = vi.fn().mockRejectedValue(new Error('down'));
+
+      await expect(deliverWithRetry(channel('slack', send), event, options)).rejects.toThrow('down');
+      expect(send).toHaveBeenCalledTimes(3);
+    });
+
+    it('should count each notification once as sent or failed', async () => {
+      notificationsTotal.reset();
+      const flaky = vi.fn().mockRejectedValueOnce(new Error('ECONNRESET')).mockResolvedValueOnce(undefined);
+      await deliverWithRetry(channel('discord', flaky), event, options);
+      await expect(deliverWithRetry(channel('discord', vi.fn().mockRejectedValue(new Error('down'))), event, options)).rejects.toThrow();
+
+      const labels = { watch: 'prices', channel: 'discord', kind: 'change' };
+      expect((await notificationsTotal.get()).values).toEqual([
+        expect.objectContaining({ labels: { ...labels, result: 'sent' }, value: 1 }),
+        expect.objectContaining({ labels: { ...labels, result: 'failed' }, value: 1 }),
+      ]);
+    });
+  });
+
+  describe('deliverEvent', () => {
+    it('should report the failing channels and keep delivering to the others', async () => {
+      const working = vi.fn().mockResolvedValue(undefined);
+      const failures = await deliverEvent(
+        [
+          channel('slack', vi.fn().mockRejectedValue(new Error('down'))),
+          channel('discord', vi.fn().mockRejectedValue({ status: 401 })),
+          channel('webhook:example.com', working),
+        ],
+        event,
+        options
+      );
+
+      expect(working).toHaveBeenCalledWith(event);
+      expect(failures).toEqual([
+        { channel: 'discord', error: '{"status":401}', permanent: true },
+        { channel: 'slack', error: 'down', permanent: false },
+      ]);
+    });
+
+    it('should skip channels whose minimum severity the change does not meet', async () => {
+      const onCall = vi.fn().mockRejectedValue(new Error('down'));
+      const failures = await deliverEvent(
+        [{ ...channel('telegram:on-call', onCall), minSeverity: 'critical' }],
+        { ...event, severity: 'minor' },
+        options
+      );
+
+      expect(onCall).not.toHaveBeenCalled();
+      expect(failures).toEqual([]);
+    });
+  });
+
+  describe('outbox', () => {
+    let dir: string;
+    let stateFilePath: string;
+    const readJson = (fileName: string) => JSON.parse(fs.readFileSync(path.join(dir, fileName), 'utf-8'));
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-notify-delivery-'));
+      stateFilePath = path.join(dir, 'prices.json');
+      fs.writeFileSync(stateFilePath, JSON.stringify({ price: 1 }));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should queue retryable failures with the pending state and dead-letter permanent ones', async () => {
+      const queued = await queueFailures(
+        stateFilePath,
+        event,
+        [
+          { channel: 'slack', error: 'down', permanent: false },
+          { channel: 'discord', error: 'bad request', permanent: true },
+        ],
+        { price: 2 },
+        event.changes!
+      );
+
+      expect(queued).toBe(true);
+      expect(await readOutbox(stateFilePath)).toEqual({
+        pendingState: { price: 2 },
+        pendingChanges: event.changes,
+        entries: [{ channel: 'slack', event, attempts: 1, firstFailedAt: event.timestamp, lastError: 'down' }],
+      });
+      expect(readJson('prices.deadletter.json')).toMatchObject([
+        { channel: 'discord', lastError: 'bad request', reason: 'Rejected by the channel' },
+      ]);
+      // The state is not marked as seen yet
+      expect(await readLastState(stateFilePath)).toEqual({ price: 1 });
+    });
+
+    it('should not create an outbox when every failure is permanent', async () => {
+      const queued = await queueFailures(
+        stateFilePath,
+        event,
+        [{ channel: 'discord', error: 'bad request', permanent: true }],
+        { price: 2 },
+        []
+      );
+
+      expect(queued).toBe(false);
+      expect(await readOutbox(stateFilePath)).toBeNull();
+    });
+
+    it('should write the pending state once the queued notifications are delivered', async () => {
+      await queueFailures(stateFilePath, event, [{ channel: 'slack', error: 'down', permanent: false }], { price: 2 }, event.changes!);
+      const send = vi.fn().mockResolvedValue(undefined);
+
+      const undelivered = await flushOutbox(stateFilePath, [channel('slack', send)], options);
+
+      expect(undelivered).toBe(0);
+      expect(send).toHaveBeenCalledWith(event);
+      expect(await readLastState(stateFilePath)).toEqual({ price: 2 });
+      expect(readJson('prices.changes.json').changes).toEqual(event.changes);
+      expect(await readOutbox(stateFilePath)).toBeNull();
+    });
+
+    it('should resend queued notifications only to the channel with their id', async () => {
+      await queueFailures(stateFilePath, event, [{ channel: 'slack:second', error: 'down', permanent: false }], { price: 2 }, []);
+      const first = { id: 'slack:first', name: 'slack', send: vi.fn().mockResolvedValue(undefined) };
+      const second = { id: 'slack:second', name: 'slack', send: vi.fn().mockResolvedValue(undefined) };
+
+      expect(await flushOutbox(stateFilePath, [first, second], options)).toBe(0);
+      expect(first.send).not.toHaveBeenCalled();
+      expect(second.send).toHaveBeenCalledWith(event);
+    });
+
+    it('should store the validators of the pending state along with it', async () => {
+      await queueFailures(stateFilePath, event, [{ channel: 'slack', error: 'down', permanent: false }], { price: 2 }, [], { etag: '"v2"' });
+
+      await flushOutbox(stateFilePath, [channel('slack', vi.fn().mockResolvedValue(undefined))], options);
+
+      expect(readJson('prices.meta.json')).toEqual({ etag: '"v2"' });
+    });
+
+    it('should keep undelivered notifications and count the attempts', async () => {
+      await queueFailures(stateFilePath, event, [{ channel: 'slack', error: 'down', permanent: false }], { price: 2 }, []);
+
+      const undelivered = await flushOutbox(
+        stateFilePath,
+        [channel('slack', vi.fn().mockRejectedValue(new Error('still down')))],
+        options
+      );
+
+      expect(undelivered).toBe(1);
+      expect((await readOutbox(stateFilePath))?.entries[0]).toMatchObject({ attempts: 2, lastError: 'still down' });
+      expect(await readLastState(stateFilePath)).toEqual({ price: 1 });
+    });
+
+    it('should dead-letter notifications after too many attempts and then write the state', async () => {
+      await queueFailures(stateFilePath, event, [{ channel: 'slack', error: 'down', permanent: false }], { price: 2 }, []);
+      const failing = [channel('slack', vi.fn().mockRejectedValue(new Error('still down')))];
+
+      expect(await flushOutbox(stateFilePath, failing, options)).toBe(1); // attempt 2
+      expect(await flushOutbox(stateFilePath, failing, options)).toBe(0); // attempt 3 = deadLetterAfter
+
+      expect(readJson('prices.deadletter.json')).toMatchObject([
+        { channel: 'slack', attempts: 3, reason: 'Not delivered after 3 attempts' },
+      ]);
+      expect(await readLastState(stateFilePath)).toEqual({ price: 2 });
+      expect(await readOutbox(stateFilePath)).toBeNull();
+    });
+
+    it('should dead-letter notifications for channels that are no longer configured', async () => {
+      await queueFailures(stateFilePath, event, [{ channel: 'slack', error: 'down', permanent: false }], { price: 2 }, []);
+
+      expect(await flushOutbox(stateFilePath, [], options)).toBe(0);
+      expect(readJson('prices.deadletter.json')).toMatchObject([{ channel: 'slack', reason: 'Channel is no longer configured' }]);
+    });
+
+    it('should do nothing without an outbox', async () => {
+      expect(await flushOutbox(stateFilePath, [], options)).toBe(0);
+      expect(await readLastState(stateFilePath)).toEqual({ price: 1 });
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { config } from './config.js';
+import { type DiffOperation } from './comparer.js';
+import { acceptsEvent, type NotificationChannel, type NotificationEvent } from './notifier.js';
+import { getStateStore, recordDelivery, writeState, type HttpValidators } from './storage.js';
+import { notificationsTotal } from './metrics.js';
+import { logger } from './logger.js';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  deadLetterAfter: number;
+  sleep?: (ms: number) => Promise<void>; // Injectable for tests
+}
+
+export interface DeliveryFailure {
+  channel: string; // Id of the channel
+  error: string;
+  permanent: boolean; // The target rejected the message itself, retrying will not help
+}
+
+/**
+ * A notification that could not be delivered to one channel yet.
+ */
+export interface OutboxEntry {
+  channel: string; // Id of the channel (its name in entries queued before channels had ids)
+  event: NotificationEvent;
+  attempts: number; // Check runs that tried to deliver it
+  firstFailedAt: string;
+  lastError: string;
+}
+
+/**
+ * A notification that was given up on.
+ */
+export interface DeadLetterEntry extends OutboxEntry {
+  reason: string;
+  deadLetteredAt: string;
+}
+
+/**
+ * The persisted outbox of a watch. `pendingState` is the state that produced the queued
+ * notifications; it is only written to the state file once they are delivered or dead-lettered.
+ */
+export interface Outbox {
+  pendingState: unknown;
+  pendingChanges: DiffOperation[];
+  pendingValidators?: HttpValidators; // HTTP validators of the response the pending state came from
+  entries: OutboxEntry[];
+}
+
+interface RetryInfo {
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+const defaultSleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Decides whether a failed send is worth retrying and how long the target asked to wait.
+ * Understands Telegram API errors (`retry_after`), HTTP errors from webhooks (Retry-After)
+ * and SMTP response codes. Network errors are always retryable.
+ */
+export function getRetryInfo(error: any): RetryInfo {
+  // Telegram (node-telegram-bot-api): error.response.body = { error_code, parameters: { retry_after } }
+  const telegramBody = error?.response?.body;
+  if (telegramBody && typeof telegramBody === 'object' && 'error_code' in telegramBody) {
+    const retryAfter = telegramBody.parameters?.retry_after;
+    return {
+      retryable: telegramBody.error_code === 429 || telegramBody.error_code >= 500,
+      retryAfterMs: typeof retryAfter === 'number' ? retryAfter * 1000 : undefined,
+    };
+  }
+  // SMTP (nodemailer): 4xx replies are temporary, 5xx permanent
+  if (typeof error?.responseCode === 'number') {
+    return { retryable: error.responseCode < 500 };
+  }
+  // HTTP webhooks
+  if (typeof error?.status === 'number') {
+    return {
+      retryable: error.status === 408 || error.status === 429 || error.status >= 500,
+      retryAfterMs: error.retryAfterMs,
+    };
+  }
+  return { retryable: true };
+}
+
+function getErrorMessage(error: any): string {
+  return error instanceof Error ? error.message : JSON.stringify(error);
+}
+
+/**
+ * Sends an event through a channel, retrying with exponential backoff.
+ * A wait requested by the target (e.g. Telegram's `retry_after`) replaces the backoff delay.
+ * Gives up early on permanent errors and on waits longer than `maxDelayMs`, which are
+ * left to the next check run.
+ * @throws The error of the last attempt.
+ */
+export async function deliverWithRetry(
+  channel: NotificationChannel,
+  event: NotificationEvent,
+  options: RetryOptions = config.delivery
+): Promise<void> {
+  const sleep = options.sleep ?? defaultSleep;
+  const labels = { watch: event.watchId, channel: channel.id, kind: event.kind };
+  for (let attempt = 1; ; attempt++) {
+    const attemptedAt = new Date().toISOString();
+    const attemptRecord = { watchId: event.watchId, channel: channel.id, kind: event.kind, attempt, attemptedAt };
+    try {
+      await channel.send(event);
+      await recordDelivery({ ...attemptRecord, ok: true });
+      notificationsTotal.inc({ ...labels, result: 'sent' });
+      return;
+    } catch (error) {
+      await recordDelivery({ ...attemptRecord, ok: false, error: getErrorMessage(error) });
+      const { retryable, retryAfterMs } = getRetryInfo(error);
+      const delay = retryAfterMs ?? Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+      if (!retryable || attempt >= options.maxAttempts || delay > options.maxDelayMs) {
+        notificationsTotal.inc({ ...labels, result: 'failed' });
+        throw error;
+      }
+      logger.warn(
+        `Delivery via ${channel.name} failed (attempt ${attempt}/${options.maxAttempts}): ${getErrorMessage(error)}. Retrying in ${delay}ms.`
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Sends an event with retries to every channel that accepts it, i.e. change events only go to
+ * channels whose minimum severity they meet. A failing channel does not stop the others.
+ * @returns The channels that could not be reached.
+ */
+export async function deliverEvent(
+  channels: NotificationChannel[],
+  event: NotificationEvent,
+  options: RetryOptions = config.delivery
+): Promise<DeliveryFailure[]> {
+  const failures: DeliveryFailure[] = [];
+  await Promise.all(
+    channels.filter((channel) => acceptsEvent(channel, event)).map(async (channel) => {
+      try {
+        await deliverWithRetry(channel, event, options);
+      } catch (error) {
+        logger.error(`Error sending notification via ${channel.name}.`, { error: getErrorMessage(error) });
+        failures.push({ channel: channel.id, error: getErrorMessage(error), permanent: !getRetryInfo(error).retryable });
+      }
+    })
+  );
+  return failures;
+}
+
+/**
+ * Reads the outbox of a watch.
+ * @returns The outbox, or null if nothing is waiting for delivery.
+ */
+export async function readOutbox(stateFilePath: string): Promise<Outbox | null> {
+  return getStateStore().readOutbox(stateFilePath);
+}
+
+// Adds entries to the dead letters of the watch
+async function deadLetter(stateFilePath: string, entries: OutboxEntry[], reason: string): Promise<void> {
+  if (entries.length === 0) return;
+  const deadLetteredAt = new Date().toISOString();
+  await getStateStore().appendDeadLetters(
+    stateFilePath,
+    entries.map((entry) => ({ ...entry, reason, deadLetteredAt }))
+  );
+  logger.error(`Dead-lettered ${entries.length} notification(s) of ${stateFilePath}: ${reason}`);
+}
+
+/**
+ * Records the failures of a delivery. Permanent failures are dead-lettered right away, the others
+ * are queued in the outbox together with the state that must not be marked as seen yet.
+ * @returns True if notifications were queued, i.e. the caller must not write the state itself.
+ */
+export async function queueFailures(
+  stateFilePath: string,
+  event: NotificationEvent,
+  failures: DeliveryFailure[],
+  pendingState: unknown,
+  pendingChanges: DiffOperation[],
+  pendingValidators?: HttpValidators
+): Promise<boolean> {
+  const toEntry = (failure: DeliveryFailure): OutboxEntry => ({
+    channel: failure.channel,
+    event,
+    attempts: 1,
+    firstFailedAt: event.timestamp,
+    lastError: failure.error,
+  });
+  await deadLetter(
+    stateFilePath,
+    failures.filter((failure) => failure.permanent).map(toEntry),
+    'Rejected by the channel'
+  );
+
+  const entries = failures.filter((failure) => !failure.permanent).map(toEntry);
+  if (entries.length === 0) return false;
+  await getStateStore().writeOutbox(stateFilePath, { pendingState, pendingChanges, pendingValidators, entries });
+  logger.warn(`Queued ${entries.length} undelivered notification(s). The state will be updated once they are delivered.`);
+  return true;
+}
+
+/**
+ * Retries the notifications queued in the outbox of a watch. Entries that fail permanently, or
+ * for more than `deadLetterAfter` check runs, are dead-lettered. Once nothing is left, the pending
+ * state is written and the outbox removed.
+ * @param stateFilePath The state file of the watch.
+ * @param channels The current channels of the watch, looked up by name.
+ * @returns The number of notifications that are still undelivered.
+ */
+export async function flushOutbox(
+  stateFilePath: string,
+  channels: NotificationChannel[],
+  options: RetryOptions = config.delivery
+): Promise<number> {
+  const outbox = await readOutbox(stateFilePath);
+  if (!outbox) return 0;
+  logger.info(`Retrying ${outbox.entries.length} undelivered notification(s) from the outbox...`);
+
+  const remaining: OutboxEntry[] = [];
+  const rejected: OutboxEntry[] = [];
+  const expired: OutboxEntry[] = [];
+  const removed: OutboxEntry[] = [];
+  for (const entry of outbox.entries) {
+    const channel =
+      channels.find((candidate) => candidate.id === entry.channel) ??
+      channels.find((candidate) => candidate.name === entry.channel); // Queued before channels had ids
+    if (!channel) {
+      removed.push(entry);
+      continue;
+    }
+    try {
+      await deliverWithRetry(channel, entry.event, options);
+      logger.info(`Delivered queued notification via ${channel.name}.`);
+    } catch (error) {
+      const failed = { ...entry, attempts: entry.attempts + 1, lastError: getErrorMessage(error) };
+      if (!getRetryInfo(error).retryable) rejected.push(failed);
+      else if (failed.attempts >= options.deadLetterAfter) expired.push(failed);
+      else remaining.push(failed);
+    }
+  }
+  await deadLetter(stateFilePath, rejected, 'Rejected by the channel');
+  await deadLetter(stateFilePath, expired, `Not delivered after ${options.deadLetterAfter} attempts`);
+  await deadLetter(stateFilePath, removed, 'Channel is no longer configured');
+
+  if (remaining.length > 0) {
+    await getStateStore().writeOutbox(stateFilePath, { ...outbox, entries: remaining });
+    return remaining.length;
+  }
+  // Everything is resolved: mark the state that produced the notifications as seen
+  if (outbox.pendingState !== null && outbox.pendingState !== undefined) {
+    await writeState(outbox.pendingState, stateFilePath, outbox.pendingChanges, outbox.pendingValidators);
+  }
+  await getStateStore().deleteOutbox(stateFilePath);
+  return 0;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { countTokens } from 'gpt-tokenizer';
+import { chunkDiffLines, pointerSegments, type DiffLine } from './diffChunks.js';
+
+const line = (pointer: string, text = `[CHANGED] ${pointer}: 1 -> 2`): DiffLine => ({ path: pointerSegments(pointer), text });
+
+describe('pointerSegments', () => {
+  it('should split JSON Pointers into segments', () => {
+    expect(pointerSegments('/items/3/price')).toEqual(['items', '3', 'price']);
+    expect(pointerSegments('')).toEqual([]);
+  });
+});
+
+describe('chunkDiffLines', () => {
+  const tokensOf = (lines: DiffLine[]) => lines.reduce((sum, { text }) => sum + countTokens(`${text}\n`), 0);
+
+  it('should keep a diff within the budget in one chunk', () => {
+    const lines = [line('/a'), line('/b/0'), line('/b/1')];
+    expect(chunkDiffLines(lines, { maxTokens: 1000, maxChunks: 5 })).toEqual({
+      chunks: [lines.map(({ text }) => text)],
+      omitted: 0,
+    });
+  });
+
+  it('should keep lines below the same path together', () => {
+    const books = [line('/books/0'), line('/books/1'), line('/books/2')];
+    const games = [line('/games/0'), line('/games/1'), line('/games/2')];
+    const maxTokens = Math.max(tokensOf(books), tokensOf(games)) + 1;
+
+    // Interleaved lines are still grouped by their first segment
+    const { chunks } = chunkDiffLines([books[0], games[0], books[1], games[1], books[2], games[2]], { maxTokens, maxChunks: 5 });
+    expect(chunks).toEqual([books.map(({ text }) => text), games.map(({ text }) => text)]);
+  });
+
+  it('should split a group over the budget one path level deeper', () => {
+    const first = [line('/items/0/name'), line('/items/0/price')];
+    const second = [line('/items/1/name'), line('/items/1/price')];
+    const maxTokens = tokensOf(first) + 1;
+
+    const { chunks } = chunkDiffLines([...first, ...second], { maxTokens, maxChunks: 5 });
+    expect(chunks).toEqual([first.map(({ text }) => text), second.map(({ text }) => text)]);
+  });
+
+  it('should truncate a single line over the budget', () => {
+    const { chunks } = chunkDiffLines([line('/long', `[ADDED] /long: "${'word '.repeat(500)}"`)], { maxTokens: 50, maxChunks: 5 });
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0][0]).toMatch(/^\[ADDED\] \/long: "word word .* \.\.\. \[truncated\]$/);
+    expect(countTokens(chunks[0][0])).toBeLessThanOrEqual(50);
+  });
+
+  it('should leave out the lines beyond the maximum number of chunks', () => {
+    const lines = ['a', 'b', 'c', 'd'].map((key) => line(`/${key}`, `[CHANGED] /${key}: ${'x '.repeat(40)}`));
+    const { chunks, omitted } = chunkDiffLines(lines, { maxTokens: tokensOf(lines.slice(0, 1)) + 1, maxChunks: 2 });
+    expect(chunks).toHaveLength(2);
+    expect(omitted).toBe(2);
+  });
+});
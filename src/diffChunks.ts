@@ -0,0 +1,97 @@
+// Tokens are counted with the cl100k tokenizer of OpenAI models, which approximates the
+// tokenizers of other providers closely enough for budgeting
+import { countTokens, decode, encode } from 'gpt-tokenizer';
+
+/**
+ * One line of a diff, with the JSON Pointer segments it is grouped by.
+ */
+export interface DiffLine {
+  path: string[];
+  text: string;
+}
+
+export interface ChunkOptions {
+  maxTokens: number; // Budget of the lines of one chunk
+  maxChunks: number; // Lines beyond this many chunks are dropped
+}
+
+export interface DiffChunks {
+  chunks: string[][];
+  omitted: number; // Lines that did not fit into maxChunks chunks
+}
+
+interface MeasuredLine extends DiffLine {
+  tokens: number;
+}
+
+const TRUNCATION_MARKER = ' ... [truncated]';
+
+/**
+ * Splits a JSON Pointer into its segments, e.g. `/items/3/price` into `['items', '3', 'price']`.
+ */
+export function pointerSegments(pointer: string): string[] {
+  return pointer.split('/').slice(1);
+}
+
+// Groups lines sharing the first `depth` path segments, in order of their first line
+function groupByPrefix(lines: MeasuredLine[], depth: number): MeasuredLine[][] {
+  const groups = new Map<string, MeasuredLine[]>();
+  lines.forEach((line, index) => {
+    // Lines with shorter paths cannot be split further, so they become groups of their own
+    const key = line.path.length < depth ? `#${index}` : JSON.stringify(line.path.slice(0, depth));
+    groups.set(key, [...(groups.get(key) ?? []), line]);
+  });
+  return [...groups.values()];
+}
+
+function truncateLine(line: MeasuredLine, maxTokens: number): MeasuredLine {
+  const markerTokens = countTokens(TRUNCATION_MARKER);
+  const text = decode(encode(line.text).slice(0, Math.max(maxTokens - markerTokens, 0))) + TRUNCATION_MARKER;
+  return { ...line, text, tokens: countTokens(text) };
+}
+
+/**
+ * Splits the lines of a diff into chunks within a token budget. Lines below the same path are kept
+ * in the same chunk where possible: a group that does not fit is split one path level deeper,
+ * down to single lines, and a single line over the budget is truncated.
+ * @param lines The lines, in diff order.
+ * @param options The token budget of a chunk and the maximum number of chunks.
+ * @returns The chunks, and the number of lines left out because they did not fit.
+ */
+export function chunkDiffLines(lines: DiffLine[], options: ChunkOptions): DiffChunks {
+  const chunks: MeasuredLine[][] = [];
+  let current: MeasuredLine[] = [];
+  let used = 0;
+  const startChunk = () => {
+    if (current.length > 0) chunks.push(current);
+    current = [];
+    used = 0;
+  };
+  const add = (group: MeasuredLine[], tokens: number) => {
+    current.push(...group);
+    used += tokens;
+  };
+
+  const place = (group: MeasuredLine[], depth: number) => {
+    const tokens = group.reduce((sum, line) => sum + line.tokens, 0);
+    if (used + tokens <= options.maxTokens) return add(group, tokens);
+    if (tokens <= options.maxTokens) {
+      startChunk();
+      return add(group, tokens);
+    }
+    if (group.length === 1) {
+      startChunk();
+      const line = truncateLine(group[0], options.maxTokens);
+      return add([line], line.tokens);
+    }
+    for (const subgroup of groupByPrefix(group, depth + 1)) place(subgroup, depth + 1);
+  };
+
+  const measured = lines.map((line) => ({ ...line, tokens: countTokens(`${line.text}\n`) }));
+  for (const group of groupByPrefix(measured, 1)) place(group, 1);
+  startChunk();
+
+  const kept = chunks.slice(0, options.maxChunks);
+  const omitted = chunks.slice(options.maxChunks).reduce((sum, chunk) => sum + chunk.length, 0);
+  return { chunks: kept.map((chunk) => chunk.map((line) => line.text)), omitted };
+}
@@ -1,4 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import net from 'net';
+import type { AddressInfo } from 'net';
 
 // Define mockUrl for reference in tests
 const mockUrl = 'http://fake.url/data.json';
@@ -11,31 +14,29 @@ vi.mock('./config.js', () => ({
   },
 }));
 
+vi.mock('./logger.js', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
 // --- Mock global fetch ---
 const mockFetch = vi.fn();
 // Stub will happen in beforeEach
 // -------------------------
 
 // Import the function to test AFTER mocks are set up
-import { fetchJsonData } from './fetcher.js';
+import { fetchJsonData, fetchJsonIfChanged, getRetryDelay } from './fetcher.js';
+import { logger } from './logger.js';
 
 describe('fetchJsonData', () => {
-  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
-  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
-
   beforeEach(() => {
     // No need to resetModules if config mock is static (hardcoded)
     mockFetch.mockClear();
     vi.stubGlobal('fetch', mockFetch);
-    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
-    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
   });
 
   afterEach(() => {
     vi.unstubAllGlobals();
     vi.resetAllMocks();
-    consoleLogSpy.mockRestore();
-    consoleErrorSpy.mockRestore();
   });
 
   // Test cases using mockUrl variable for clarity in assertions
@@ -46,14 +47,15 @@ describe('fetchJsonData', () => {
       json: async () => mockData,
       status: 200,
       statusText: 'OK',
+      headers: new Headers(),
     });
     const data = await fetchJsonData();
     expect(data).toEqual(mockData);
     expect(mockFetch).toHaveBeenCalledTimes(1);
-    expect(mockFetch).toHaveBeenCalledWith(mockUrl); // Check against variable
-    expect(consoleLogSpy).toHaveBeenCalledWith(`Fetching JSON data from ${mockUrl}...`);
-    expect(consoleLogSpy).toHaveBeenCalledWith('Successfully fetched JSON data.');
-    expect(consoleErrorSpy).not.toHaveBeenCalled();
+    expect(mockFetch).toHaveBeenCalledWith(mockUrl, expect.objectContaining({ method: 'GET' })); // Check against variable
+    expect(logger.info).toHaveBeenCalledWith(`Fetching JSON data from ${mockUrl}...`);
+    expect(logger.info).toHaveBeenCalledWith('Successfully fetched JSON data.');
+    expect(logger.error).not.toHaveBeenCalled();
   });
 
   it('should throw an error if the fetch response is not ok', async () => {
@@ -63,11 +65,10 @@ describe('fetchJsonData', () => {
     mockFetch.mockResolvedValueOnce(mockResponse);
     const internalError = new Error(`Failed to fetch JSON: ${status} ${statusText}`);
     await expect(fetchJsonData()).rejects.toThrow(internalError.message);
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      `Error fetching JSON data from ${mockUrl}:`,
-      expect.objectContaining({ message: internalError.message })
-    );
-    expect(mockFetch).toHaveBeenCalledWith(mockUrl);
+    expect(logger.error).toHaveBeenCalledWith(`Error fetching JSON data from ${mockUrl}.`, {
+      error: expect.objectContaining({ message: internalError.message }),
+    });
+    expect(mockFetch).toHaveBeenCalledWith(mockUrl, expect.objectContaining({ method: 'GET' }));
   });
 
   it('should throw an error if fetch itself fails (network error)', async () => {
@@ -75,11 +76,10 @@ describe('fetchJsonData', () => {
     const networkError = new TypeError('fetch failed');
     mockFetch.mockRejectedValueOnce(networkError);
     await expect(fetchJsonData()).rejects.toThrow(networkError.message);
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      `Error fetching JSON data from ${mockUrl}:`,
-      expect.objectContaining({ message: networkError.message })
-    );
-     expect(mockFetch).toHaveBeenCalledWith(mockUrl);
+    expect(logger.error).toHaveBeenCalledWith(`Error fetching JSON data from ${mockUrl}.`, {
+      error: expect.objectContaining({ message: networkError.message }),
+    });
+     expect(mockFetch).toHaveBeenCalledWith(mockUrl, expect.objectContaining({ method: 'GET' }));
   });
 
   it('should throw an error if response.json() fails', async () => {
@@ -88,13 +88,186 @@ describe('fetchJsonData', () => {
         ok: true,
         json: vi.fn().mockRejectedValueOnce(jsonError),
         status: 200,
-        statusText: 'OK'
+        statusText: 'OK',
+        headers: new Headers(),
     });
     await expect(fetchJsonData()).rejects.toThrow(jsonError.message);
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      `Error fetching JSON data from ${mockUrl}:`,
-      expect.objectContaining({ message: jsonError.message })
+    expect(logger.error).toHaveBeenCalledWith(`Error fetching JSON data from ${mockUrl}.`, {
+      error: expect.objectContaining({ message: jsonError.message }),
+    });
+     expect(mockFetch).toHaveBeenCalledWith(mockUrl, expect.objectContaining({ method: 'GET' }));
+  });
+
+  it('should send the method, headers and body of the request', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({ data: [] }), status: 200, statusText: 'OK', headers: new Headers() });
+
+    await fetchJsonData('http://fake.url/graphql', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: '{"query":"{ items { id } }"}',
+      timeoutMs: 5000,
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith('http://fake.url/graphql', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: '{"query":"{ items { id } }"}',
+      signal: expect.any(AbortSignal),
+    });
+  });
+
+  it('should abort requests that exceed the timeout', async () => {
+    // Never answers, only rejects once the request is aborted
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: { signal: AbortSignal }) =>
+        new Promise((_resolve, reject) => {
+          init.signal.addEventListener('abort', () => reject(new DOMException('This operation was aborted', 'AbortError')));
+        })
+    );
+
+    await expect(fetchJsonData(mockUrl, { method: 'GET', headers: {}, timeoutMs: 20 })).rejects.toThrow(
+      `Request to ${mockUrl} timed out after 20ms`
     );
-     expect(mockFetch).toHaveBeenCalledWith(mockUrl);
   });
-}); 
\ No newline at end of file
+
+  it('should route requests through the proxy', async () => {
+    vi.unstubAllGlobals(); // The proxy path does not use the global fetch anyway
+    const target = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ via: 'proxy' }));
+    });
+    const tunnels: string[] = [];
+    const proxy = http.createServer();
+    proxy.on('connect', (req, clientSocket, head) => {
+      tunnels.push(req.url ?? '');
+      const [host, port] = (req.url ?? '').split(':');
+      const upstream = net.connect(Number(port), host, () => {
+        clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+        upstream.write(head);
+        upstream.pipe(clientSocket);
+        clientSocket.pipe(upstream);
+      });
+    });
+    await new Promise<void>((resolve) => target.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>((resolve) => proxy.listen(0, '127.0.0.1', resolve));
+    const targetPort = (target.address() as AddressInfo).port;
+    const proxyPort = (proxy.address() as AddressInfo).port;
+
+    try {
+      const data = await fetchJsonData(`http://127.0.0.1:${targetPort}/data.json`, {
+        method: 'GET',
+        headers: {},
+        timeoutMs: 5000,
+        proxy: `http://127.0.0.1:${proxyPort}`,
+      });
+
+      expect(data).toEqual({ via: 'proxy' });
+      expect(tunnels).toEqual([`127.0.0.1:${targetPort}`]);
+    } finally {
+      proxy.closeAllConnections();
+      target.closeAllConnections();
+      await new Promise((resolve) => proxy.close(resolve));
+      await new Promise((resolve) => target.close(resolve));
+    }
+  });
+
+  describe('fetchJsonIfChanged', () => {
+    const request = { method: 'GET', headers: { Accept: 'application/json' }, timeoutMs: 5000 };
+
+    it('should send the stored validators and report 304 as not modified', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+      const result = await fetchJsonIfChanged(mockUrl, request, {
+        etag: '"v1"',
+        lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT',
+      });
+
+      expect(result).toEqual({ notModified: true });
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({
+        Accept: 'application/json',
+        'If-None-Match': '"v1"',
+        'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT',
+      });
+    });
+
+    it('should return the body with the validators of the new response', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(JSON.stringify({ version: 2 }), {
+          status: 200,
+          headers: { ETag: '"v2"', 'Last-Modified': 'Thu, 02 Jan 2025 00:00:00 GMT' },
+        })
+      );
+
+      const result = await fetchJsonIfChanged(mockUrl, request, { etag: '"v1"' });
+
+      expect(result).toEqual({
+        notModified: false,
+        data: { version: 2 },
+        validators: { etag: '"v2"', lastModified: 'Thu, 02 Jan 2025 00:00:00 GMT' },
+      });
+    });
+
+    it('should not send conditional headers without stored validators', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('{}', { status: 200 }));
+
+      const result = await fetchJsonIfChanged(mockUrl, request);
+
+      expect(mockFetch.mock.calls[0][1].headers).toEqual({ Accept: 'application/json' });
+      expect(result).toEqual({ notModified: false, data: {}, validators: { etag: undefined, lastModified: undefined } });
+    });
+  });
+
+  describe('retries', () => {
+    const request = { method: 'GET', headers: {}, timeoutMs: 5000, retries: 2, retryDelayMs: 1 };
+
+    it('should retry network errors and server errors until an attempt succeeds', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(new Response(null, { status: 503, statusText: 'Service Unavailable' }))
+        .mockResolvedValueOnce(new Response('{"ok":true}', { status: 200 }));
+
+      const result = await fetchJsonIfChanged(mockUrl, request);
+
+      expect(result).toMatchObject({ notModified: false, data: { ok: true } });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(logger.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(fetchJsonIfChanged(mockUrl, request)).rejects.toThrow('fetch failed');
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(logger.error).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry client errors or invalid JSON', async () => {
+      mockFetch.mockResolvedValueOnce(new Response(null, { status: 404, statusText: 'Not Found' }));
+      await expect(fetchJsonIfChanged(mockUrl, request)).rejects.toThrow('Failed to fetch JSON: 404 Not Found');
+
+      mockFetch.mockResolvedValueOnce(new Response('<html>', { status: 200 }));
+      await expect(fetchJsonIfChanged(mockUrl, request)).rejects.toThrow(SyntaxError);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not wait for a Retry-After beyond the limit', async () => {
+      mockFetch.mockResolvedValueOnce(
+        new Response(null, { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '3600' } })
+      );
+
+      await expect(fetchJsonIfChanged(mockUrl, request)).rejects.toThrow('429');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should spread retry delays with jitter below the exponential bound', () => {
+      const randomSpy = vi.spyOn(Math, 'random');
+      randomSpy.mockReturnValueOnce(0.5).mockReturnValueOnce(0.999);
+
+      expect(getRetryDelay(0, 1000)).toBe(500);
+      expect(getRetryDelay(2, 1000)).toBe(3996);
+      expect(getRetryDelay(2, 1000, 7000)).toBe(7000); // Retry-After wins
+      randomSpy.mockRestore();
+    });
+  });
+});
@@ -1,28 +1,195 @@
+import { ProxyAgent, fetch as undiciFetch } from 'undici';
 import { config } from './config.js';
+import { type HttpValidators } from './storage.js';
+import { logger } from './logger.js';
 
 // Define a generic type for the expected JSON structure if known,
 // otherwise use `unknown` or `any` (use with caution).
 // type ExpectedJsonType = { /* ... structure ... */ };
 type ExpectedJsonType = unknown;
 
-export async function fetchJsonData(): Promise<ExpectedJsonType> {
-  console.log(`Fetching JSON data from ${config.jsonUrl}...`);
+/**
+ * How an endpoint is requested. Secrets are already interpolated and auth is part of `headers`.
+ */
+export interface FetchRequest {
+  method: string;
+  headers: Record<string, string>;
+  body?: string;
+  timeoutMs: number; // The request is aborted after this long, including reading the body
+  proxy?: string; // Proxy URL, e.g. http://proxy.internal:3128
+  retries?: number; // Extra attempts after a network error, timeout, 429 or 5xx
+  retryDelayMs?: number; // Base of the exponential backoff between attempts
+}
+
+const DEFAULT_REQUEST: FetchRequest = { method: 'GET', headers: {}, timeoutMs: 30000 };
+const MAX_RETRY_DELAY_MS = 60000; // Longer waits requested by the server are left to the next check
+
+/**
+ * Error of a failed fetch attempt. `retryable` is false when another attempt would get the same answer.
+ */
+interface FetchError extends Error {
+  retryable: boolean;
+  retryAfterMs?: number;
+}
+
+function fetchError(message: string, retryable: boolean, retryAfterMs?: number): FetchError {
+  return Object.assign(new Error(message), { retryable, retryAfterMs });
+}
+
+/**
+ * Parses a Retry-After header, given either in seconds or as an HTTP date.
+ * @returns The time to wait in milliseconds, or undefined if the header is missing or invalid.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with full jitter, so watches that failed
+ * together do not retry in lockstep. A Retry-After from the server takes precedence.
+ */
+export function getRetryDelay(attempt: number, baseDelayMs: number, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return retryAfterMs;
+  return Math.round(Math.random() * baseDelayMs * 2 ** attempt);
+}
+
+// One agent per proxy URL, so connections to the proxy are reused across checks
+const proxyAgents = new Map<string, ProxyAgent>();
+
+function getProxyAgent(proxy: string): ProxyAgent {
+  let agent = proxyAgents.get(proxy);
+  if (!agent) {
+    agent = new ProxyAgent(proxy);
+    proxyAgents.set(proxy, agent);
+  }
+  return agent;
+}
+
+/**
+ * Result of a conditional fetch: either the endpoint reported that nothing changed (304),
+ * or the parsed body together with the validators of the new response.
+ */
+export type ConditionalFetchResult =
+  | { notModified: true }
+  | { notModified: false; data: ExpectedJsonType; validators: HttpValidators };
+
+/**
+ * Fetches the JSON document at the given URL unless it is unchanged. The stored validators
+ * are sent as If-None-Match / If-Modified-Since, so servers supporting them can answer 304
+ * without a body.
+ * @param url The endpoint to fetch.
+ * @param request Method, headers, body, timeout and proxy.
+ * @param validators The ETag and Last-Modified of the stored state, if any.
+ * @returns Whether the document changed, and if so its parsed body and new validators.
+ */
+export async function fetchJsonIfChanged(
+  url: string,
+  request: FetchRequest = DEFAULT_REQUEST,
+  validators: HttpValidators = {}
+): Promise<ConditionalFetchResult> {
+  logger.info(`Fetching JSON data from ${url}...`);
+  const retries = request.retries ?? 0;
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(url, request, validators);
+    } catch (error) {
+      const { retryable = true, retryAfterMs } = error as Partial<FetchError>;
+      const delay = getRetryDelay(attempt, request.retryDelayMs ?? 1000, retryAfterMs);
+      if (!retryable || attempt >= retries || delay > MAX_RETRY_DELAY_MS) {
+        logger.error(`Error fetching JSON data from ${url}.`, { error });
+        throw error; // Re-throw the error to be handled by the caller
+      }
+      logger.warn(
+        `Fetching ${url} failed (attempt ${attempt + 1}/${retries + 1}): ${(error as Error).message}. Retrying in ${delay}ms.`
+      );
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+// A single attempt of fetchJsonIfChanged
+async function fetchOnce(
+  url: string,
+  request: FetchRequest,
+  validators: HttpValidators
+): Promise<ConditionalFetchResult> {
+  const headers = { ...request.headers };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  // Abort hung endpoints so a single watch cannot block its job forever
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), request.timeoutMs);
   try {
-    // Using native fetch available in Node.js >= 18
-    const response = await fetch(config.jsonUrl);
+    const init = {
+      method: request.method,
+      headers,
+      body: request.body,
+      signal: controller.signal,
+    };
+    // Native fetch (Node.js >= 18), or undici's fetch when the request goes through a proxy
+    const response = request.proxy
+      ? await undiciFetch(url, { ...init, dispatcher: getProxyAgent(request.proxy) })
+      : await fetch(url, init);
 
+    if (response.status === 304) {
+      logger.info('JSON data not modified since the last check.');
+      return { notModified: true };
+    }
     if (!response.ok) {
-      throw new Error(
-        `Failed to fetch JSON: ${response.status} ${response.statusText}`
+      const retryable = response.status === 408 || response.status === 429 || response.status >= 500;
+      throw fetchError(
+        `Failed to fetch JSON: ${response.status} ${response.statusText}`,
+        retryable,
+        parseRetryAfter(response.headers?.get('retry-after') ?? null)
       );
     }
 
-    const data = (await response.json()) as ExpectedJsonType;
-    console.log('Successfully fetched JSON data.');
-    return data;
+    let data: ExpectedJsonType;
+    try {
+      data = (await response.json()) as ExpectedJsonType;
+    } catch (error) {
+      // A body that is not JSON will not become JSON by asking again; timeouts and dropped connections might
+      if (error instanceof SyntaxError) throw Object.assign(error, { retryable: false });
+      throw error;
+    }
+    logger.info('Successfully fetched JSON data.');
+    return {
+      notModified: false,
+      data,
+      validators: {
+        etag: response.headers.get('etag') ?? undefined,
+        lastModified: response.headers.get('last-modified') ?? undefined,
+      },
+    };
   } catch (error) {
-    console.error(`Error fetching JSON data from ${config.jsonUrl}:`, error);
-    // Depending on requirements, you might want to retry or handle specific errors
-    throw error; // Re-throw the error to be handled by the caller
+    if (controller.signal.aborted) {
+      throw fetchError(`Request to ${url} timed out after ${request.timeoutMs}ms`, true);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+/**
+ * Fetches and parses the JSON document at the given URL.
+ * @param url The endpoint to fetch. Defaults to JSON_URL.
+ * @param request Method, headers, body, timeout and proxy. Defaults to a plain GET.
+ * @returns The parsed JSON body.
+ */
+export async function fetchJsonData(
+  url: string = config.jsonUrl,
+  request: FetchRequest = DEFAULT_REQUEST
+): Promise<ExpectedJsonType> {
+  // Without validators the server has nothing to compare against, so it never answers 304
+  const result = await fetchJsonIfChanged(url, request);
+  if (result.notModified) {
+    throw new Error(`Unexpected 304 Not Modified from ${url}`);
   }
-} 
\ No newline at end of file
+  return result.data;
+}
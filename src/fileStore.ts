@@ -0,0 +1,194 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { getBackupFilePath, readJsonFile, writeFileAtomic } from './atomicFile.js';
+import { type DiffOperation } from './comparer.js';
+import { type DeadLetterEntry, type Outbox } from './delivery.js';
+import { type WatchHealth } from './health.js';
+import { reportRecovery } from './recovery.js';
+import { logger } from './logger.js';
+import { listSnapshots, loadLatestSnapshot, loadSnapshot, saveSnapshot } from './snapshots.js';
+import { type HttpValidators, type SchemaRecord, type StateStore } from './storage.js';
+
+/**
+ * Returns the path of the file holding the operations of the last detected change.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getChangesFilePath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.changes.json`;
+}
+
+/**
+ * Returns the path of the outbox holding notifications that could not be delivered yet.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getOutboxFilePath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.outbox.json`;
+}
+
+/**
+ * Returns the path of the file collecting notifications that were given up on.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getDeadLetterFilePath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.deadletter.json`;
+}
+
+/**
+ * Returns the path of the file holding the HTTP validators of the stored state.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getMetaFilePath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.meta.json`;
+}
+
+/**
+ * Returns the path of the file holding the inferred schema and the reported violations.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getSchemaFilePath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.schema.json`;
+}
+
+/**
+ * Returns the path of the file holding the health of a watch that is failing.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getHealthFilePath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.health.json`;
+}
+
+// Ensure the directory for the state file exists
+async function ensureStateDirectoryExists(stateFilePath: string) {
+  const dir = path.dirname(stateFilePath);
+  try {
+    await fs.access(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') {
+      logger.info(`Creating directory for state file: ${dir}`);
+      await fs.mkdir(dir, { recursive: true });
+    } else {
+      throw error; // Re-throw unexpected errors
+    }
+  }
+}
+
+// Reads a file next to the state file, recovering from corruption on behalf of the watch
+function readSideFile<T>(stateFilePath: string, filePath: string, fallback: T): Promise<T> {
+  return readJsonFile(filePath, fallback, (message) => reportRecovery(stateFilePath, message));
+}
+
+// Writes a file next to the state file atomically, keeping the previous version as backup
+async function writeSideFile(filePath: string, value: unknown): Promise<void> {
+  await writeFileAtomic(filePath, JSON.stringify(value, null, 2), { backup: true });
+}
+
+// Removes a file next to the state file together with its backup, so the backup is never restored later
+async function removeSideFile(filePath: string): Promise<void> {
+  await fs.rm(filePath, { force: true });
+  await fs.rm(getBackupFilePath(filePath), { force: true });
+}
+
+async function writeValidators(stateFilePath: string, validators: HttpValidators = {}): Promise<void> {
+  const metaFilePath = getMetaFilePath(stateFilePath);
+  if (validators.etag || validators.lastModified) {
+    await writeSideFile(metaFilePath, validators);
+  } else {
+    await removeSideFile(metaFilePath);
+  }
+}
+
+/**
+ * Creates the store keeping everything in files next to the state file path of each watch:
+ * snapshots in `<state>.snapshots/`, and `<state>.changes.json`, `.meta.json`, `.schema.json`,
+ * `.health.json`, `.outbox.json` and `.deadletter.json`. Delivery attempts and AI results are only logged.
+ * Files are written atomically; corrupt files are quarantined and recovered from the previous
+ * snapshot or a backup, reported through reportRecovery.
+ */
+export function createFileStore(): StateStore {
+  return {
+    async readLastState<T>(stateFilePath: string): Promise<T | null> {
+      await ensureStateDirectoryExists(stateFilePath);
+      const latest = await loadLatestSnapshot<T>(stateFilePath, (message) => reportRecovery(stateFilePath, message));
+      if (latest !== null) return latest;
+      // State file written before snapshots existed
+      const legacyState = await readSideFile<T | null>(stateFilePath, stateFilePath, null);
+      if (legacyState === null) logger.info('State file not found, assuming first run.');
+      return legacyState;
+    },
+
+    async writeState(
+      stateFilePath: string,
+      state: unknown,
+      changes?: DiffOperation[],
+      validators?: HttpValidators
+    ): Promise<void> {
+      await ensureStateDirectoryExists(stateFilePath);
+      const snapshot = await saveSnapshot(stateFilePath, state);
+      logger.info(`State successfully stored as snapshot ${snapshot.id}`);
+      if (changes && changes.length > 0) {
+        await writeSideFile(getChangesFilePath(stateFilePath), { detectedAt: new Date().toISOString(), changes });
+        logger.info(`Recorded ${changes.length} change operation(s) next to the state file.`);
+      }
+      await writeValidators(stateFilePath, validators);
+    },
+
+    async readValidators(stateFilePath: string): Promise<HttpValidators> {
+      const { etag, lastModified } = await readSideFile<HttpValidators>(stateFilePath, getMetaFilePath(stateFilePath), {});
+      return { etag, lastModified };
+    },
+
+    writeValidators,
+
+    listSnapshots,
+
+    loadSnapshot,
+
+    readSchemaRecord(stateFilePath: string): Promise<SchemaRecord> {
+      return readSideFile<SchemaRecord>(stateFilePath, getSchemaFilePath(stateFilePath), { violations: [] });
+    },
+
+    async writeSchemaRecord(stateFilePath: string, record: SchemaRecord): Promise<void> {
+      await ensureStateDirectoryExists(stateFilePath);
+      await writeSideFile(getSchemaFilePath(stateFilePath), record);
+    },
+
+    readHealth(stateFilePath: string): Promise<WatchHealth | null> {
+      return readSideFile<WatchHealth | null>(stateFilePath, getHealthFilePath(stateFilePath), null);
+    },
+
+    async writeHealth(stateFilePath: string, health: WatchHealth | null): Promise<void> {
+      if (health) {
+        await ensureStateDirectoryExists(stateFilePath);
+        await writeSideFile(getHealthFilePath(stateFilePath), health);
+      } else {
+        await removeSideFile(getHealthFilePath(stateFilePath));
+      }
+    },
+
+    readOutbox(stateFilePath: string): Promise<Outbox | null> {
+      return readSideFile<Outbox | null>(stateFilePath, getOutboxFilePath(stateFilePath), null);
+    },
+
+    async writeOutbox(stateFilePath: string, outbox: Outbox): Promise<void> {
+      await writeSideFile(getOutboxFilePath(stateFilePath), outbox);
+    },
+
+    async deleteOutbox(stateFilePath: string): Promise<void> {
+      await removeSideFile(getOutboxFilePath(stateFilePath));
+    },
+
+    async appendDeadLetters(stateFilePath: string, entries: DeadLetterEntry[]): Promise<void> {
+      const filePath = getDeadLetterFilePath(stateFilePath);
+      const deadLetters = await readSideFile<DeadLetterEntry[]>(stateFilePath, filePath, []);
+      deadLetters.push(...entries);
+      await writeSideFile(filePath, deadLetters);
+    },
+
+    // The console output is the only record of these with the file store
+    async recordDelivery(): Promise<void> {},
+
+    async recordSummary(): Promise<void> {},
+
+    close(): void {},
+  };
+}
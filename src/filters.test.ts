@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { applyPathFilters } from './filters.js';
+
+describe('applyPathFilters', () => {
+  const state = {
+    generatedAt: '2024-05-01T10:00:00Z',
+    requestId: 'abc',
+    items: [
+      { id: 1, price: 10, meta: { requestId: 'x', stock: 3 } },
+      { id: 2, price: 20, meta: { requestId: 'y', stock: 0 } },
+    ],
+  };
+
+  it('should return the state unchanged without filters', () => {
+    expect(applyPathFilters(state, {})).toBe(state);
+  });
+
+  it('should drop ignored paths', () => {
+    expect(applyPathFilters(state, { ignore: ['generatedAt', '**.requestId'] })).toEqual({
+      items: [
+        { id: 1, price: 10, meta: { stock: 3 } },
+        { id: 2, price: 20, meta: { stock: 0 } },
+      ],
+    });
+  });
+
+  it('should keep only included paths and their ancestors', () => {
+    expect(applyPathFilters(state, { include: ['items[*].id', 'items[*].price'] })).toEqual({
+      items: [
+        { id: 1, price: 10 },
+        { id: 2, price: 20 },
+      ],
+    });
+  });
+
+  it('should keep whole subtrees below an included path, minus ignored paths', () => {
+    expect(applyPathFilters(state, { include: ['$.items'], ignore: ['items[*].meta.requestId'] })).toEqual({
+      items: [
+        { id: 1, price: 10, meta: { stock: 3 } },
+        { id: 2, price: 20, meta: { stock: 0 } },
+      ],
+    });
+  });
+
+  it('should keep the index of array elements after one that is filtered out', () => {
+    const items = [{ id: 1, price: 10 }, { id: 2 }, { id: 3, price: 30 }];
+
+    expect(applyPathFilters({ items }, { include: ['items[*].price'] })).toEqual({ items: [{ price: 10 }, null, { price: 30 }] });
+    expect(applyPathFilters({ items }, { ignore: ['items[0]'] })).toEqual({ items: [null, { id: 2 }, { id: 3, price: 30 }] });
+    expect(applyPathFilters({ items }, { include: ['items[1].id'] })).toEqual({ items: [null, { id: 2 }] });
+  });
+
+  it('should keep the identity key of elements in keyed arrays', () => {
+    const items = [{ id: 1, price: 10 }, { id: 2 }, { id: 3, price: 30 }];
+
+    expect(applyPathFilters({ items }, { include: ['items[*].price'], arrayKeys: ['items[*].id'] })).toEqual({
+      items: [{ id: 1, price: 10 }, { id: 3, price: 30 }],
+    });
+    expect(applyPathFilters({ items }, { ignore: ['**.id'], arrayKeys: ['items[*].id'] })).toEqual({ items });
+  });
+
+  it('should accept JSON Pointer style patterns', () => {
+    expect(applyPathFilters(state, { include: ['/items/0/price'] })).toEqual({ items: [{ price: 10 }] });
+  });
+
+  it('should return an empty document when nothing matches the include list', () => {
+    expect(applyPathFilters(state, { include: ['missing'] })).toEqual({});
+    expect(applyPathFilters([1, 2], { include: ['missing'] })).toEqual([]);
+  });
+
+  it('should not modify the input', () => {
+    const copy = JSON.parse(JSON.stringify(state));
+    applyPathFilters(state, { ignore: ['generatedAt'] });
+    expect(state).toEqual(copy);
+  });
+});
@@ -0,0 +1,96 @@
+import { parseArrayKey, type ArrayKey } from './comparer.js';
+import { getValueAtPath, matchesPath, mayMatchBelow, parsePathPattern, type PathPattern } from './pathMatcher.js';
+
+export interface PathFilters {
+  /** Only values at these paths (and everything below them) take part in the comparison. */
+  include?: string[];
+  /** Values at these paths (and everything below them) are dropped before the comparison. */
+  ignore?: string[];
+  /** Identity keys of arrays compared by key (see CompareOptions), kept in every element left. */
+  arrayKeys?: string[];
+}
+
+interface FilterContext {
+  include: PathPattern[];
+  ignore: PathPattern[];
+  arrayKeys: ArrayKey[];
+}
+
+// Marker for "nothing left of this value after filtering"
+const OMIT = Symbol('omit');
+
+// Stands in for a filtered-out array element
+const ARRAY_PLACEHOLDER = null;
+
+type PathSegment = string | number;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Copies the identity key of an element back into what is left of it after filtering
+function restoreKey(filtered: unknown, element: unknown, keyPath: string[]): unknown {
+  const key = getValueAtPath(element, keyPath);
+  if (key === undefined || !isObject(filtered) || !isObject(element)) return filtered;
+  const [first, ...rest] = keyPath;
+  return { ...filtered, [first]: rest.length === 0 ? key : restoreKey(filtered[first] ?? {}, element[first], rest) };
+}
+
+function filterValue(value: unknown, path: PathSegment[], context: FilterContext, included: boolean): unknown {
+  const { include, ignore } = context;
+  if (ignore.some((pattern) => matchesPath(pattern, path))) return OMIT;
+
+  const isIncluded = included || include.some((pattern) => matchesPath(pattern, path));
+  if (!isIncluded && !include.some((pattern) => mayMatchBelow(pattern, path))) return OMIT;
+
+  const arrayKey = Array.isArray(value) ? context.arrayKeys.find((key) => matchesPath(key.arrayPath, path)) : undefined;
+  if (Array.isArray(value) && arrayKey) {
+    // Elements are paired by their key rather than their position: every element left keeps its
+    // key, even if the key itself is filtered out, and elements left out are simply dropped
+    const result = value.flatMap((item, index) => {
+      const filtered = filterValue(item, [...path, index], context, isIncluded);
+      return filtered === OMIT ? [] : [restoreKey(filtered, item, arrayKey.keyPath)];
+    });
+    return isIncluded || result.length > 0 ? result : OMIT;
+  }
+  if (Array.isArray(value)) {
+    const result = value.map((item, index) => filterValue(item, [...path, index], context, isIncluded));
+    // Elements left out become placeholders, so the ones after them keep their index; trailing
+    // placeholders are dropped, so elements appended after the included ones are not a change
+    while (result.length > 0 && result[result.length - 1] === OMIT) result.pop();
+    if (!isIncluded && result.length === 0) return OMIT;
+    return result.map((item) => (item === OMIT ? ARRAY_PLACEHOLDER : item));
+  }
+  if (isObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      const filtered = filterValue(child, [...path, key], context, isIncluded);
+      if (filtered !== OMIT) result[key] = filtered;
+    }
+    return isIncluded || Object.keys(result).length > 0 ? result : OMIT;
+  }
+  return isIncluded ? value : OMIT;
+}
+
+/**
+ * Applies include and ignore path patterns to a JSON document, so values that are only noise
+ * (timestamps, request ids, cache busters) never count as a change.
+ * Ignore patterns win over include patterns. Without include patterns everything is included.
+ * Elements of arrays with an identity key keep their key, so they can still be paired by it.
+ * @param state The JSON document.
+ * @param filters The path patterns, e.g. "generatedAt", "items[*].price" or "**.requestId", and
+ * the array keys the filtered documents are compared with.
+ * @returns A filtered copy of the document; the input is not modified.
+ */
+export function applyPathFilters<T extends object>(state: T, filters: PathFilters): T {
+  const include = (filters.include ?? []).map(parsePathPattern);
+  const ignore = (filters.ignore ?? []).map(parsePathPattern);
+  if (include.length === 0 && ignore.length === 0) return state;
+
+  const context: FilterContext = { include, ignore, arrayKeys: (filters.arrayKeys ?? []).map(parseArrayKey) };
+  const filtered = filterValue(state, [], context, include.length === 0);
+  if (filtered === OMIT) {
+    return (Array.isArray(state) ? [] : {}) as T;
+  }
+  return filtered as T;
+}
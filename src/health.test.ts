@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { getHealth, recordFailure, recordSuccess, restoreHealth } from './health.js';
+
+describe('health', () => {
+  beforeEach(() => {
+    // Start every test from a healthy watch
+    recordSuccess('feed');
+  });
+
+  it('should stay quiet until the failure threshold is reached', () => {
+    expect(recordFailure('feed', new Error('timeout'), 3)).toBeNull();
+    expect(recordFailure('feed', new Error('timeout'), 3)).toBeNull();
+    expect(recordFailure('feed', new Error('502 Bad Gateway'), 3)).toBe('down');
+
+    expect(getHealth('feed')).toMatchObject({ consecutiveFailures: 3, down: true, lastError: '502 Bad Gateway' });
+  });
+
+  it('should alert only once per outage', () => {
+    recordFailure('feed', new Error('timeout'), 1);
+    expect(recordFailure('feed', new Error('timeout'), 1)).toBeNull();
+    expect(recordFailure('feed', new Error('timeout'), 1)).toBeNull();
+    expect(getHealth('feed').consecutiveFailures).toBe(3);
+  });
+
+  it('should keep the start of the outage', () => {
+    recordFailure('feed', new Error('timeout'), 5);
+    const { downSince } = getHealth('feed');
+    recordFailure('feed', new Error('timeout'), 5);
+
+    expect(downSince).toEqual(expect.any(String));
+    expect(getHealth('feed').downSince).toBe(downSince);
+  });
+
+  it('should report recovery after an alert and reset the count', () => {
+    recordFailure('feed', new Error('timeout'), 1);
+
+    expect(recordSuccess('feed')).toBe('recovered');
+    expect(getHealth('feed')).toEqual({ consecutiveFailures: 0, down: false });
+    expect(recordSuccess('feed')).toBeNull();
+  });
+
+  it('should not report recovery for failures below the threshold', () => {
+    recordFailure('feed', new Error('timeout'), 3);
+    expect(recordSuccess('feed')).toBeNull();
+  });
+
+  it('should track watches independently', () => {
+    recordFailure('feed', new Error('timeout'), 1);
+    expect(getHealth('other')).toEqual({ consecutiveFailures: 0, down: false });
+  });
+
+  it('should continue from a health stored by an earlier run', () => {
+    restoreHealth('feed', { consecutiveFailures: 2, down: false, downSince: '2025-01-01T00:00:00.000Z' });
+    expect(recordFailure('feed', new Error('timeout'), 3)).toBe('down');
+    expect(getHealth('feed').downSince).toBe('2025-01-01T00:00:00.000Z');
+
+    restoreHealth('feed', null);
+    expect(getHealth('feed')).toEqual({ consecutiveFailures: 0, down: false });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Health of a single watch, tracked across its check runs.
+ */
+export interface WatchHealth {
+  consecutiveFailures: number;
+  down: boolean; // An "endpoint down" alert was sent and no check has succeeded since
+  downSince?: string; // ISO 8601 time of the first failure of the current outage
+  lastError?: string;
+}
+
+/**
+ * What the caller should announce after recording a check result.
+ * - "down": the failure threshold was just reached, send one alert.
+ * - "recovered": the first success after an alert, send the all-clear.
+ * - null: stay quiet.
+ */
+export type HealthTransition = 'down' | 'recovered' | null;
+
+const healthByWatch = new Map<string, WatchHealth>();
+
+/**
+ * Returns the current health of a watch.
+ */
+export function getHealth(watchId: string): WatchHealth {
+  return healthByWatch.get(watchId) ?? { consecutiveFailures: 0, down: false };
+}
+
+/**
+ * Replaces the health of a watch with the one stored by an earlier run, so consecutive failures
+ * are counted across processes (e.g. of `check --once`). Null means healthy.
+ */
+export function restoreHealth(watchId: string, health: WatchHealth | null): void {
+  if (health) {
+    healthByWatch.set(watchId, health);
+  } else {
+    healthByWatch.delete(watchId);
+  }
+}
+
+/**
+ * Records a failed check.
+ * @param watchId The watch that failed.
+ * @param error The error of the check.
+ * @param threshold Consecutive failures before the watch is considered down.
+ * @returns "down" exactly once per outage, when the threshold is reached.
+ */
+export function recordFailure(watchId: string, error: unknown, threshold: number): HealthTransition {
+  const previous = getHealth(watchId);
+  const health: WatchHealth = {
+    consecutiveFailures: previous.consecutiveFailures + 1,
+    down: previous.down,
+    downSince: previous.downSince ?? new Date().toISOString(),
+    lastError: error instanceof Error ? error.message : String(error),
+  };
+  const transition = !health.down && health.consecutiveFailures >= threshold ? 'down' : null;
+  if (transition) health.down = true;
+  healthByWatch.set(watchId, health);
+  return transition;
+}
+
+/**
+ * Records a successful check and resets the failure count.
+ * @returns "recovered" if an "endpoint down" alert was sent for this outage.
+ */
+export function recordSuccess(watchId: string): HealthTransition {
+  const wasDown = getHealth(watchId).down;
+  healthByWatch.delete(watchId);
+  return wasDown ? 'recovered' : null;
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { configureLogger, createRunId, logger, withLogContext } from './logger.js';
+
+describe('logger', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-01-01T00:00:00.000Z'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    configureLogger({ level: 'info', format: 'text' });
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('should log text lines with the level and fields', () => {
+    logger.info('Fetched.', { status: 200, url: 'https://example.com' });
+    logger.warn('Retrying.');
+
+    expect(console.log).toHaveBeenCalledWith('2025-01-01T00:00:00.000Z INFO  Fetched. status=200 url=https://example.com');
+    expect(console.warn).toHaveBeenCalledWith('2025-01-01T00:00:00.000Z WARN  Retrying.');
+  });
+
+  it('should skip lines below the configured level', () => {
+    logger.debug('Prompt');
+    expect(console.log).not.toHaveBeenCalled();
+
+    configureLogger({ level: 'debug' });
+    logger.debug('Prompt');
+    expect(console.log).toHaveBeenCalledWith(expect.stringContaining('DEBUG Prompt'));
+
+    configureLogger({ level: 'error' });
+    logger.warn('Retrying.');
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  it('should log one JSON object per line in JSON format', () => {
+    configureLogger({ format: 'json' });
+    const error = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    logger.error('Fetch failed.', { error, attempt: 2 });
+
+    const entry = JSON.parse(vi.mocked(console.error).mock.calls[0][0]);
+    expect(entry).toEqual({
+      time: '2025-01-01T00:00:00.000Z',
+      level: 'error',
+      msg: 'Fetch failed.',
+      error: { name: 'Error', message: 'connect ECONNREFUSED', code: 'ECONNREFUSED', stack: expect.any(String) },
+      attempt: 2,
+    });
+  });
+
+  it('should log the stack of errors in text format', () => {
+    logger.error('Check failed.', { error: new Error('HTTP 502') });
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/Check failed\.\nError: HTTP 502\n\s+at /));
+  });
+
+  it('should attach the log context to every line within it, across awaits', async () => {
+    configureLogger({ format: 'json' });
+    await withLogContext({ watchId: 'prices', runId: 'abcd1234' }, async () => {
+      logger.info('Started.');
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      withLogContext({ runId: 'nested' }, () => logger.info('Nested.'));
+      logger.info('Finished.');
+    });
+    logger.info('Outside.');
+
+    const entries = vi.mocked(console.log).mock.calls.map(([line]) => JSON.parse(line));
+    expect(entries.map(({ msg, watchId, runId }) => ({ msg, watchId, runId }))).toEqual([
+      { msg: 'Started.', watchId: 'prices', runId: 'abcd1234' },
+      { msg: 'Nested.', watchId: 'prices', runId: 'nested' },
+      { msg: 'Finished.', watchId: 'prices', runId: 'abcd1234' },
+      { msg: 'Outside.', watchId: undefined, runId: undefined },
+    ]);
+  });
+
+  it('should prefix text lines with the watch and run id', () => {
+    withLogContext({ watchId: 'prices', runId: 'abcd1234' }, () => logger.info('Started.'));
+    expect(console.log).toHaveBeenCalledWith('2025-01-01T00:00:00.000Z INFO  [prices abcd1234] Started.');
+  });
+
+  it('should create distinct run ids', () => {
+    expect(createRunId()).toMatch(/^[0-9a-f]{8}$/);
+    expect(createRunId()).not.toBe(createRunId());
+  });
+});
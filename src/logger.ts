@@ -0,0 +1,99 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export const LOG_FORMATS = ['text', 'json'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+export type LogFormat = (typeof LOG_FORMATS)[number];
+
+/**
+ * Attached to every line logged while it is active, e.g. during one check of a watch.
+ */
+export interface LogContext {
+  watchId?: string;
+  runId?: string;
+}
+
+/**
+ * Structured details of a log line. Errors are logged with their stack.
+ */
+export type LogFields = Record<string, unknown>;
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+const settings: { level: LogLevel; format: LogFormat } = { level: 'info', format: 'text' };
+
+/**
+ * Sets the minimum level and the output format. Until called, info and above is logged as text.
+ */
+export function configureLogger(options: Partial<typeof settings>): void {
+  Object.assign(settings, options);
+}
+
+/**
+ * Returns a short random id that tells the lines of one run apart from those of other runs.
+ */
+export function createRunId(): string {
+  return crypto.randomBytes(4).toString('hex');
+}
+
+/**
+ * Runs a function with a log context, which is attached to every line logged within it,
+ * including from asynchronous calls. Nested contexts extend the outer one.
+ */
+export function withLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn);
+}
+
+// Errors have no enumerable properties, so they would serialize as {}
+function toJsonValue(value: unknown): unknown {
+  if (!(value instanceof Error)) return value;
+  const { code } = value as NodeJS.ErrnoException;
+  return { name: value.name, message: value.message, ...(code ? { code } : {}), stack: value.stack };
+}
+
+function stringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value); // Circular structures and BigInts
+  }
+}
+
+function formatText(level: LogLevel, message: string, context: LogContext, fields: LogFields): string {
+  const scope = [context.watchId, context.runId].filter(Boolean).join(' ');
+  let line = `${new Date().toISOString()} ${level.toUpperCase().padEnd(5)} ${scope ? `[${scope}] ` : ''}${message}`;
+  for (const [key, value] of Object.entries(fields)) {
+    if (value instanceof Error) line += `\n${value.stack ?? value.message}`;
+    else line += ` ${key}=${typeof value === 'string' ? value : stringify(value)}`;
+  }
+  return line;
+}
+
+function formatJson(level: LogLevel, message: string, context: LogContext, fields: LogFields): string {
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...context };
+  for (const [key, value] of Object.entries(fields)) {
+    entry[key] = toJsonValue(value);
+  }
+  return stringify(entry);
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(settings.level)) return;
+  const context = contextStorage.getStore() ?? {};
+  const line = (settings.format === 'json' ? formatJson : formatText)(level, message, context, fields);
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+}
+
+/**
+ * Logs with a level, as text or one JSON object per line, including the current log context.
+ */
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
@@ -0,0 +1,71 @@
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+
+/**
+ * The registry served on /metrics. Every metric is labeled by the id of its watch.
+ */
+export const metricsRegistry = new Registry();
+
+export const checksTotal = new Counter({
+  name: 'json_notify_checks_total',
+  help: 'Checks run, by result (success or failure)',
+  labelNames: ['watch', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const fetchFailuresTotal = new Counter({
+  name: 'json_notify_fetch_failures_total',
+  help: 'Fetches that failed after all retries',
+  labelNames: ['watch'] as const,
+  registers: [metricsRegistry],
+});
+
+export const changesDetectedTotal = new Counter({
+  name: 'json_notify_changes_detected_total',
+  help: 'Checks that detected changes, whether or not they were worth reporting',
+  labelNames: ['watch'] as const,
+  registers: [metricsRegistry],
+});
+
+export const notificationsTotal = new Counter({
+  name: 'json_notify_notifications_total',
+  help: 'Notifications by channel, kind and result (sent, or failed after all attempts of a check run)',
+  labelNames: ['watch', 'channel', 'kind', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const fetchDurationSeconds = new Histogram({
+  name: 'json_notify_fetch_duration_seconds',
+  help: 'Time to fetch and parse the endpoint, including retries',
+  labelNames: ['watch'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
+
+export const aiDurationSeconds = new Histogram({
+  name: 'json_notify_ai_duration_seconds',
+  help: 'Time the AI took to summarize changes',
+  labelNames: ['watch'] as const,
+  buckets: [0.5, 1, 2.5, 5, 10, 20, 30, 60, 120],
+  registers: [metricsRegistry],
+});
+
+export const aiTokensTotal = new Counter({
+  name: 'json_notify_ai_tokens_total',
+  help: 'Tokens used by the AI, by type (prompt or completion)',
+  labelNames: ['watch', 'type'] as const,
+  registers: [metricsRegistry],
+});
+
+export const aiCacheHitsTotal = new Counter({
+  name: 'json_notify_ai_cache_hits_total',
+  help: 'Summaries reused from the cache instead of asking the AI',
+  labelNames: ['watch'] as const,
+  registers: [metricsRegistry],
+});
+
+export const consecutiveFailures = new Gauge({
+  name: 'json_notify_consecutive_failures',
+  help: 'Consecutive failed checks, 0 after a successful one',
+  labelNames: ['watch'] as const,
+  registers: [metricsRegistry],
+});
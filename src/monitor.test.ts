@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { checkJsonUpdates, getWatchStatus } from './monitor.js';
+import { type WatchConfig } from './config.js';
+import { readHealth, readLastState, readValidators, recordSummary, writeHealth, writeState, writeValidators } from './storage.js';
+import { fetchJsonIfChanged } from './fetcher.js';
+import { generateChangeSummary } from './aiProcessor.js';
+import { deliverEvent, flushOutbox, queueFailures } from './delivery.js';
+
+vi.mock('./config.js', () => ({
+  config: { watches: [] },
+}));
+
+vi.mock('./storage.js', () => ({
+  readHealth: vi.fn(),
+  readLastState: vi.fn(),
+  readSchemaRecord: vi.fn(),
+  readValidators: vi.fn(),
+  recordSummary: vi.fn(),
+  writeHealth: vi.fn(),
+  writeSchemaRecord: vi.fn(),
+  writeState: vi.fn(),
+  writeValidators: vi.fn(),
+}));
+
+vi.mock('./fetcher.js', () => ({
+  fetchJsonIfChanged: vi.fn(),
+}));
+
+vi.mock('./aiProcessor.js', () => ({
+  generateChangeSummary: vi.fn(),
+}));
+
+vi.mock('./delivery.js', () => ({
+  deliverEvent: vi.fn(),
+  flushOutbox: vi.fn(),
+  queueFailures: vi.fn(),
+}));
+
+const watch: WatchConfig = {
+  id: 'prices',
+  url: 'https://example.com/prices.json',
+  request: { method: 'GET', headers: {}, timeoutMs: 1000 } as WatchConfig['request'],
+  alertAfterFailures: 1,
+  cron: '* * * * *',
+  stateFilePath: '/tmp/prices.json',
+  promptContext: '',
+  arrayKeys: [],
+  include: [],
+  ignore: [],
+  rules: [],
+  rulesMode: 'prefilter',
+  channels: [{ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/x' }],
+};
+
+describe('monitor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(flushOutbox).mockResolvedValue(0);
+    vi.mocked(readHealth).mockResolvedValue(null);
+    vi.mocked(readLastState).mockResolvedValue({ price: 1 });
+    vi.mocked(readValidators).mockResolvedValue({});
+    vi.mocked(fetchJsonIfChanged).mockResolvedValue({ notModified: false, data: { price: 2 }, validators: { etag: '"v2"' } });
+    vi.mocked(generateChangeSummary).mockResolvedValue({
+      isWorthToReport: true,
+      reportedChanges: 'Price went up.',
+      severity: 'major',
+      title: 'Price increase',
+      highlights: [{ path: '/price', before: '1', after: '2' }],
+      tags: ['pricing'],
+    });
+    vi.mocked(deliverEvent).mockResolvedValue([]);
+    vi.mocked(queueFailures).mockResolvedValue(false);
+  });
+
+  it('should notify about changes and store the new state', async () => {
+    expect(await checkJsonUpdates(watch)).toBe(true);
+
+    expect(flushOutbox).toHaveBeenCalled();
+    expect(deliverEvent).toHaveBeenCalledWith([], expect.objectContaining({
+      kind: 'change',
+      title: 'prices: Price increase',
+      summary: 'Price went up.',
+      severity: 'major',
+      highlights: [{ path: '/price', before: '1', after: '2' }],
+      tags: ['pricing'],
+    }));
+    expect(recordSummary).toHaveBeenCalled();
+    expect(writeState).toHaveBeenCalledWith({ price: 2 }, watch.stateFilePath, expect.any(Array), { etag: '"v2"' });
+  });
+
+  it('should pair the elements of keyed arrays by their key when only some fields are included', async () => {
+    vi.mocked(readLastState).mockResolvedValue({ items: [{ id: 1, name: 'a', price: 10 }, { id: 2, name: 'b', price: 20 }] });
+    vi.mocked(fetchJsonIfChanged).mockResolvedValue({
+      notModified: false,
+      data: { items: [{ id: 2, name: 'b', price: 25 }, { id: 1, name: 'A', price: 10 }] },
+      validators: {},
+    });
+
+    await checkJsonUpdates({ ...watch, include: ['items[*].price'], arrayKeys: ['items[*].id'] });
+
+    expect(generateChangeSummary).toHaveBeenCalledWith(
+      [{ op: 'changed', path: '/items/0/price', oldValue: 20, newValue: 25 }],
+      watch.promptContext,
+      watch.id
+    );
+  });
+
+  it('should record the last run, error and change of the watch', async () => {
+    await checkJsonUpdates(watch);
+    vi.mocked(fetchJsonIfChanged).mockRejectedValue(new Error('HTTP 502'));
+    await checkJsonUpdates(watch);
+
+    expect(getWatchStatus('prices')).toEqual({
+      running: false,
+      lastRunAt: expect.any(String),
+      lastRunOk: false,
+      lastError: { at: expect.any(String), message: 'HTTP 502' },
+      lastChange: { detectedAt: expect.any(String), changeCount: 1, worthReporting: true, summary: 'Price went up.' },
+    });
+  });
+
+  it('should summarize but neither notify nor store anything in a dry run', async () => {
+    expect(await checkJsonUpdates(watch, { dryRun: true })).toBe(true);
+
+    expect(generateChangeSummary).toHaveBeenCalled();
+    // Lines of a check carry the watch id and the id of the run
+    expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/\[prices [0-9a-f]{8}\] Dry run: would notify 1 channel\(s\) \(major\):\nPrice went up\./));
+    expect(flushOutbox).not.toHaveBeenCalled();
+    expect(deliverEvent).not.toHaveBeenCalled();
+    expect(recordSummary).not.toHaveBeenCalled();
+    expect(writeState).not.toHaveBeenCalled();
+    expect(writeValidators).not.toHaveBeenCalled();
+  });
+
+  it('should not store the first state in a dry run', async () => {
+    vi.mocked(readLastState).mockResolvedValue(null);
+
+    expect(await checkJsonUpdates(watch, { dryRun: true })).toBe(true);
+    expect(writeState).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed check without alerting in a dry run', async () => {
+    vi.mocked(fetchJsonIfChanged).mockRejectedValue(new Error('HTTP 502'));
+
+    expect(await checkJsonUpdates(watch, { dryRun: true })).toBe(false);
+    expect(deliverEvent).not.toHaveBeenCalled();
+    expect(writeHealth).not.toHaveBeenCalled();
+  });
+
+  it('should count failures stored by earlier runs towards the alert threshold', async () => {
+    const downSince = '2025-01-01T00:00:00.000Z';
+    vi.mocked(readHealth).mockResolvedValue({ consecutiveFailures: 2, down: false, downSince, lastError: 'HTTP 502' });
+    vi.mocked(fetchJsonIfChanged).mockRejectedValue(new Error('HTTP 503'));
+
+    expect(await checkJsonUpdates({ ...watch, alertAfterFailures: 3 })).toBe(false);
+
+    expect(deliverEvent).toHaveBeenCalledWith([], expect.objectContaining({ kind: 'error', title: 'Endpoint down: prices' }));
+    expect(writeHealth).toHaveBeenCalledWith(watch.stateFilePath, {
+      consecutiveFailures: 3,
+      down: true,
+      downSince,
+      lastError: 'HTTP 503',
+    });
+  });
+
+  it('should clear the stored health once a check succeeds', async () => {
+    vi.mocked(readHealth).mockResolvedValue({ consecutiveFailures: 3, down: true, downSince: '2025-01-01T00:00:00.000Z' });
+
+    expect(await checkJsonUpdates(watch)).toBe(true);
+
+    expect(deliverEvent).toHaveBeenCalledWith([], expect.objectContaining({ kind: 'recovered' }));
+    expect(writeHealth).toHaveBeenCalledWith(watch.stateFilePath, null);
+  });
+});
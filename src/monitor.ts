@@ -0,0 +1,379 @@
+import { config, type WatchConfig } from './config.js';
+import {
+  readHealth,
+  readLastState,
+  readSchemaRecord,
+  readValidators,
+  recordSummary,
+  writeHealth,
+  writeSchemaRecord,
+  writeState,
+  writeValidators,
+} from './storage.js';
+import { fetchJsonIfChanged, type ConditionalFetchResult } from './fetcher.js';
+import { compareJson, type DiffOperation } from './comparer.js';
+import { applyPathFilters } from './filters.js';
+import { evaluateRules } from './rules.js';
+import { generateChangeSummary, type ChangeSummaryResult } from './aiProcessor.js';
+import { acceptsEvent, createChannel, type NotificationChannel, type NotificationEvent } from './notifier.js';
+import { deliverEvent, flushOutbox, queueFailures } from './delivery.js';
+import { getHealth, recordFailure, recordSuccess, restoreHealth } from './health.js';
+import {
+  changesDetectedTotal,
+  checksTotal,
+  consecutiveFailures as consecutiveFailuresGauge,
+  fetchDurationSeconds,
+  fetchFailuresTotal,
+} from './metrics.js';
+import { describeViolations, inferSchema, validateAgainstSchema } from './schema.js';
+import { takeRecoveryNotices } from './recovery.js';
+import { createRunId, logger, withLogContext } from './logger.js';
+
+// Define a type for the state, assuming it's an object
+type JsonState = object;
+
+export interface CheckOptions {
+  dryRun?: boolean; // Fetch, compare and summarize, but never store state or notify
+}
+
+/**
+ * What is known about the check runs of a watch, beyond its health.
+ */
+export interface WatchStatus {
+  running: boolean;
+  lastRunAt?: string; // ISO 8601 start of the last finished check
+  lastRunOk?: boolean;
+  lastError?: { at: string; message: string }; // Kept after later successful checks
+  lastChange?: { detectedAt: string; changeCount: number; worthReporting: boolean; summary: string };
+}
+
+const runningWatches = new Set<string>(); // Per-watch lock to prevent concurrent runs of the same watch
+
+const statusByWatch = new Map<string, Omit<WatchStatus, 'running'>>();
+
+/**
+ * Returns the status of the check runs of a watch.
+ */
+export function getWatchStatus(watchId: string): WatchStatus {
+  return { running: runningWatches.has(watchId), ...statusByWatch.get(watchId) };
+}
+
+function updateWatchStatus(watchId: string, update: Omit<WatchStatus, 'running'>) {
+  statusByWatch.set(watchId, { ...statusByWatch.get(watchId), ...update });
+}
+
+// Notification channels of every watch, created once
+const watchChannels = new Map<string, NotificationChannel[]>(
+  config.watches.map((watch) => [watch.id, watch.channels.map(createChannel)])
+);
+
+/**
+ * Returns the notification channels of a watch.
+ */
+export function getWatchChannels(watch: WatchConfig): NotificationChannel[] {
+  return watchChannels.get(watch.id) ?? [];
+}
+
+/**
+ * Decides whether the changes are worth reporting and summarizes them, using the watch's
+ * rules, the AI, or the rules as a pre-filter in front of the AI.
+ */
+export async function summarizeChanges(
+  watch: WatchConfig,
+  changes: DiffOperation[],
+  oldState: JsonState,
+  newState: JsonState
+): Promise<ChangeSummaryResult> {
+  if (watch.rules.length > 0) {
+    const ruleResult = evaluateRules(watch.rules, changes, oldState, newState);
+    if (watch.rulesMode === 'standalone') {
+      logger.info(`Evaluated ${watch.rules.length} rule(s) without AI.`);
+      return ruleResult;
+    }
+    if (!ruleResult.isWorthToReport) {
+      logger.info('No rule matched the detected changes. Skipping AI evaluation.');
+      return ruleResult;
+    }
+    logger.info('Rules matched. Requesting summary and evaluation from AI...');
+  } else {
+    logger.info('Changes detected! Requesting summary and evaluation from AI...');
+  }
+  return generateChangeSummary(changes, watch.promptContext, watch.id);
+}
+
+/**
+ * Validates a response against the schema of the watch and alerts on violations. The same set of
+ * violations is alerted once. An inferred schema is learned once, from the latest stored state (or
+ * the current response on the first run), and kept from then on.
+ */
+async function checkSchema(
+  watch: WatchConfig,
+  channels: NotificationChannel[],
+  currentState: JsonState,
+  lastState: JsonState | null,
+  { dryRun = false }: CheckOptions
+) {
+  if (!watch.schema) return;
+  const record = await readSchemaRecord(watch.stateFilePath);
+  let schema = watch.schema;
+  if (schema === 'infer') {
+    if (!record.inferred) {
+      record.inferred = inferSchema(lastState ?? currentState);
+      logger.info(`Inferred a JSON Schema from the ${lastState ? 'stored' : 'current'} state.`);
+    }
+    schema = record.inferred;
+  }
+
+  const violations = validateAgainstSchema(schema, currentState);
+  if (violations.length === 0) {
+    if (record.violations.length > 0) logger.info('Response matches the schema again.');
+  } else if (JSON.stringify(violations) === JSON.stringify(record.violations)) {
+    logger.info(`Response still violates the schema at ${violations.length} path(s). Already reported.`);
+  } else if (dryRun) {
+    logger.info(`Dry run: response violates the schema at ${violations.length} path(s):\n${describeViolations(violations)}`);
+    return;
+  } else {
+    logger.warn(`Response violates the schema at ${violations.length} path(s). Sending notification...`);
+    const failures = await deliverEvent(channels, {
+      kind: 'schema',
+      watchId: watch.id,
+      title: `Schema violation: ${watch.id}`,
+      summary: `The response no longer matches the expected schema:\n${describeViolations(violations)}`,
+      violations,
+      url: watch.url,
+      timestamp: new Date().toISOString(),
+    });
+    // Keep the previously reported violations so the alert is sent again on the next check
+    if (failures.length > 0) {
+      await writeSchemaRecord(watch.stateFilePath, record);
+      return;
+    }
+  }
+  if (dryRun) return;
+  await writeSchemaRecord(watch.stateFilePath, { ...record, violations });
+}
+
+/**
+ * Runs one check of a watch: fetch, compare, summarize, notify and store the new state.
+ * @throws If any step fails.
+ */
+async function runCheck(watch: WatchConfig, channels: NotificationChannel[], options: CheckOptions) {
+  const { dryRun = false } = options;
+
+  // 0. Deliver notifications left over from earlier runs before looking for new changes
+  const undelivered = dryRun ? 0 : await flushOutbox(watch.stateFilePath, channels);
+  if (undelivered > 0) {
+    logger.warn(`${undelivered} notification(s) are still undelivered. Skipping this check until they are delivered.`);
+    return;
+  }
+
+  // 1. Read the last known state
+  const lastState = await readLastState<JsonState>(watch.stateFilePath);
+
+  // 2. Fetch current JSON data, conditionally if the last response had an ETag or Last-Modified
+  const validators = lastState === null ? {} : await readValidators(watch.stateFilePath);
+  const endFetchTimer = fetchDurationSeconds.startTimer({ watch: watch.id });
+  let response: ConditionalFetchResult;
+  try {
+    response = await fetchJsonIfChanged(watch.url, watch.request, validators);
+  } catch (error) {
+    fetchFailuresTotal.inc({ watch: watch.id });
+    throw error;
+  } finally {
+    endFetchTimer();
+  }
+  if (response.notModified) {
+    logger.info('Endpoint reports no changes (304 Not Modified). Skipping comparison.');
+    return;
+  }
+  const currentState = response.data as JsonState;
+  if (typeof currentState !== 'object' || currentState === null) {
+      throw new Error('Fetched data is not a valid JSON object.');
+  }
+
+  // 3. Alert if the shape of the response drifted from its schema; changes are still compared
+  await checkSchema(watch, channels, currentState, lastState, options);
+
+  // 4. Compare states
+  if (lastState === null && dryRun) {
+    logger.info('No previous state found. Dry run: the current state is not stored.');
+  } else if (lastState === null) {
+    logger.info('No previous state found. Storing current state.');
+    await writeState(currentState, watch.stateFilePath, undefined, response.validators);
+  } else {
+    // Drop noise (timestamps, request ids, ...) from both sides before comparing
+    const filters = { include: watch.include, ignore: watch.ignore, arrayKeys: watch.arrayKeys };
+    const filteredLastState = applyPathFilters(lastState, filters);
+    const filteredCurrentState = applyPathFilters(currentState, filters);
+    const changes =
+      compareJson(filteredLastState, filteredCurrentState, { arrayKeys: watch.arrayKeys }) ?? [];
+
+    if (changes.length > 0) {
+      changesDetectedTotal.inc({ watch: watch.id });
+
+      // 5. Generate summary using rules and/or AI
+      const summary = await summarizeChanges(watch, changes, filteredLastState, filteredCurrentState);
+      const event: NotificationEvent = {
+        kind: 'change',
+        watchId: watch.id,
+        title: summary.title ? `${watch.id}: ${summary.title}` : `JSON Update Detected: ${watch.id}`,
+        summary: summary.reportedChanges,
+        changes,
+        severity: summary.severity,
+        highlights: summary.highlights,
+        tags: summary.tags,
+        url: watch.url,
+        timestamp: new Date().toISOString(),
+      };
+      if (dryRun) {
+        // Channels are routed by severity, so not every channel of the watch would be notified
+        const routed = watch.channels.filter((channel) => acceptsEvent(channel, event));
+        logger.info(
+          summary.isWorthToReport
+            ? `Dry run: would notify ${routed.length} channel(s) (${summary.severity}):\n${summary.reportedChanges}`
+            : `Dry run: ${changes.length} change(s) are not worth reporting. No notification would be sent.`
+        );
+        return;
+      }
+      updateWatchStatus(watch.id, {
+        lastChange: {
+          detectedAt: new Date().toISOString(),
+          changeCount: changes.length,
+          worthReporting: summary.isWorthToReport,
+          summary: summary.reportedChanges,
+        },
+      });
+      await recordSummary({
+        watchId: watch.id,
+        changeCount: changes.length,
+        isWorthToReport: summary.isWorthToReport,
+        reportedChanges: summary.reportedChanges,
+        createdAt: new Date().toISOString(),
+      });
+
+      // 6. Send notification ONLY if the changes are deemed worth reporting
+      if (summary.isWorthToReport) {
+        logger.info(`Changes are worth reporting (${summary.severity}). Sending notification...`);
+        const failures = await deliverEvent(channels, event);
+        // Undelivered notifications keep the change unseen until they are delivered or dead-lettered
+        if (await queueFailures(watch.stateFilePath, event, failures, currentState, changes, response.validators)) {
+          return;
+        }
+      } else {
+        // Log why notification wasn't sent
+        logger.info('Changes are NOT significant enough to report based on criteria, or the summary was empty. Notification skipped.');
+      }
+
+      // 7. Update the state file once the change has been reported (or was not worth reporting)
+      await writeState(currentState, watch.stateFilePath, changes, response.validators);
+    } else {
+      logger.info('No significant changes found after comparison.');
+      // The stored state is still current, so the new validators describe it too
+      if (!dryRun) await writeValidators(watch.stateFilePath, response.validators);
+    }
+  }
+}
+
+/**
+ * Warns the channels of a watch about state files that were corrupt and had to be recovered.
+ */
+async function announceRecoveries(watch: WatchConfig, channels: NotificationChannel[]) {
+  const notices = takeRecoveryNotices(watch.stateFilePath);
+  if (notices.length === 0) return;
+  await deliverEvent(channels, {
+    kind: 'warning',
+    watchId: watch.id,
+    title: `Stored state recovered: ${watch.id}`,
+    summary: notices.join('\n'),
+    url: watch.url,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+/**
+ * Runs a check of a watch and handles its failure, alerting once per outage after
+ * `alertAfterFailures` consecutive failed checks.
+ */
+async function checkWatch(watch: WatchConfig, options: CheckOptions): Promise<boolean> {
+  if (runningWatches.has(watch.id)) {
+    logger.info('Previous check is still running. Skipping this run.');
+    return true;
+  }
+  runningWatches.add(watch.id);
+  const startedAt = new Date().toISOString();
+  logger.info(`Running JSON update check${options.dryRun ? ' (dry run)' : ''}...`);
+
+  // A dry run leaves the channels alone, including for failures
+  const channels = options.dryRun ? [] : getWatchChannels(watch);
+  // The health is stored between checks, so failures of separate `check --once` runs add up
+  restoreHealth(watch.id, await readHealth(watch.stateFilePath));
+  try {
+    const downSince = getHealth(watch.id).downSince;
+    await runCheck(watch, channels, options);
+    checksTotal.inc({ watch: watch.id, result: 'success' });
+    if (!options.dryRun && recordSuccess(watch.id) === 'recovered') {
+      await deliverEvent(channels, {
+        kind: 'recovered',
+        watchId: watch.id,
+        title: `Endpoint recovered: ${watch.id}`,
+        summary: `Checks are succeeding again (failing since ${downSince}).`,
+        url: watch.url,
+        timestamp: new Date().toISOString(),
+      });
+    }
+    updateWatchStatus(watch.id, { lastRunAt: startedAt, lastRunOk: true });
+    return true;
+  } catch (error) {
+    logger.error('Error during JSON update check.', { error });
+    checksTotal.inc({ watch: watch.id, result: 'failure' });
+    updateWatchStatus(watch.id, {
+      lastRunAt: startedAt,
+      lastRunOk: false,
+      lastError: { at: new Date().toISOString(), message: error instanceof Error ? error.message : String(error) },
+    });
+    if (options.dryRun) return false; // Not counted towards an outage
+    const transition = recordFailure(watch.id, error, watch.alertAfterFailures);
+    const { consecutiveFailures } = getHealth(watch.id);
+    if (transition !== 'down') {
+      // Below the threshold, or already alerted for this outage
+      logger.info(`${consecutiveFailures} consecutive failure(s). No alert sent.`);
+      return false;
+    }
+    try {
+      const errorMessage = String(error instanceof Error ? error.stack || error.message : error);
+      await deliverEvent(channels, {
+        kind: 'error',
+        watchId: watch.id,
+        title: `Endpoint down: ${watch.id}`,
+        summary: `${consecutiveFailures} consecutive checks failed. Last error:\n${errorMessage}`,
+        url: watch.url,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (notifyError) {
+      logger.error('Failed to send error notification.', { error: notifyError });
+    }
+    return false;
+  } finally {
+    try {
+      await announceRecoveries(watch, channels);
+    } catch (notifyError) {
+      logger.error('Failed to send recovery warning.', { error: notifyError });
+    }
+    const health = getHealth(watch.id);
+    if (!options.dryRun) await writeHealth(watch.stateFilePath, health.consecutiveFailures > 0 ? health : null);
+    consecutiveFailuresGauge.set({ watch: watch.id }, health.consecutiveFailures);
+    runningWatches.delete(watch.id);
+    logger.info('JSON update check finished.');
+  }
+}
+
+/**
+ * The main function to check a single watch for JSON updates.
+ * Every line logged during the check carries the watch id and an id of this run.
+ * @param watch The watch to check.
+ * @param options dryRun: only log what would be stored and sent.
+ * @returns False if the check failed.
+ */
+export async function checkJsonUpdates(watch: WatchConfig, options: CheckOptions = {}): Promise<boolean> {
+  return withLogContext({ watchId: watch.id, runId: createRunId() }, () => checkWatch(watch, options));
+}
@@ -2,12 +2,14 @@ import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from 'vite
 
 // --- Mocks ---
 // MOVED TO TOP: Mock node-telegram-bot-api FIRST to potentially fix hoisting issues
-// Define mockSendMessage first
-const mockSendMessage = vi.fn();
-// Define the mock constructor at the top level
-const mockConstructor = vi.fn(() => ({
-  sendMessage: mockSendMessage,
-}));
+// Define the mocks with vi.hoisted so they exist when the hoisted vi.mock factory runs
+const { mockSendMessage, mockConstructor } = vi.hoisted(() => {
+  const mockSendMessage = vi.fn();
+  const mockConstructor = vi.fn(() => ({
+    sendMessage: mockSendMessage,
+  }));
+  return { mockSendMessage, mockConstructor };
+});
 // Mock the module using the top-level constructor
 vi.mock('node-telegram-bot-api', () => ({
   default: mockConstructor,
@@ -15,10 +17,13 @@ vi.mock('node-telegram-bot-api', () => ({
 
 // Other imports AFTER the primary mock
 import type TelegramBot from 'node-telegram-bot-api';
+import { SMTPServer } from 'smtp-server';
+import type { AddressInfo } from 'net';
 import * as configModule from './config.js'; // Import for spying
 
 // Mock config - Simpler version, define static mock values
-vi.mock('./config.js', () => ({
+// Hoisted so tests that override the config with vi.doMock can restore it afterwards
+const defaultConfigMock = vi.hoisted(() => ({
     config: {
       jsonUrl: 'dummy_url',
       openaiApiKey: 'dummy_key',
@@ -30,12 +35,35 @@ vi.mock('./config.js', () => ({
       // Add other required config fields with dummy values
       openaiModelName: 'gpt-dummy',
       telegramNotifyOnStart: false,
+      smtp: { host: '', port: 587, secure: false, user: '', pass: '', from: '' },
     },
     // If other exports from config.js are used, mock them here too
 }));
+vi.mock('./config.js', () => defaultConfigMock);
+
+// Hoisted so the notifier re-imported after vi.resetModules logs to the same mocks
+const { logger } = vi.hoisted(() => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock('./logger.js', () => ({ logger }));
 
 // Import AFTER mocks are defined
-import { escapeMarkdownV2, sendTelegramNotification } from './notifier.js';
+import {
+  escapeMarkdownV2,
+  formatChangesMarkdownV2,
+  renderTelegramMessage,
+  renderSlackPayload,
+  renderDiscordPayload,
+  renderEmail,
+  splitTelegramMessage,
+  markdownV2ToPlainText,
+  createSlackChannel,
+  createDiscordChannel,
+  createWebhookChannel,
+  createChannel,
+  notifyChannels,
+  type NotificationEvent,
+} from './notifier.js';
 
 // --- Test Suite ---
 describe('sendTelegramNotification', () => {
@@ -44,28 +72,21 @@ describe('sendTelegramNotification', () => {
     telegramChatId: 'MOCK_CHAT_ID',
   };
 
-  let consoleLogSpy: ReturnType<typeof vi.spyOn>;
-  let consoleErrorSpy: ReturnType<typeof vi.spyOn>;
-  let consoleWarnSpy: ReturnType<typeof vi.spyOn>;
+  let sendTelegramNotification: typeof import('./notifier.js').sendTelegramNotification;
 
-  beforeEach(() => {
+  beforeEach(async () => {
     // Clear mocks before each test
     vi.clearAllMocks();
 
+    // The bot is created lazily once per module, so re-import the notifier for every test
+    vi.resetModules();
+    ({ sendTelegramNotification } = await import('./notifier.js'));
+
     // Ensure the constructor mock has the default implementation
     mockConstructor.mockImplementation(() => ({ sendMessage: mockSendMessage }));
-
-    // Spy on console - Use ReturnType for better type safety
-    consoleLogSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
-    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
-    consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
   });
 
   afterEach(() => {
-    // Restore console spies
-    consoleLogSpy.mockRestore();
-    consoleErrorSpy.mockRestore();
-    consoleWarnSpy.mockRestore();
     // Restore any spied-on objects (like config)
     vi.restoreAllMocks();
   });
@@ -78,23 +99,23 @@ describe('sendTelegramNotification', () => {
     expect(mockConstructor).toHaveBeenCalledWith(TEST_CONFIG_VALUES.telegramBotToken);
     expect(mockSendMessage).toHaveBeenCalledTimes(1);
     expect(mockSendMessage).toHaveBeenCalledWith(TEST_CONFIG_VALUES.telegramChatId, message, { parse_mode: 'MarkdownV2' });
-    expect(consoleLogSpy).toHaveBeenCalledWith(`Sending notification to Telegram chat ID: ${TEST_CONFIG_VALUES.telegramChatId}`);
+    expect(logger.info).toHaveBeenCalledWith(`Sending notification to Telegram chat ID: ${TEST_CONFIG_VALUES.telegramChatId}`);
   });
 
-  it('should log an error and the message if sendMessage fails (default init)', async () => {
+  it('should log the message and rethrow if sendMessage fails (default init)', async () => {
     const message = 'Another test message.';
     const sendError = new Error('Telegram API error');
     mockSendMessage.mockRejectedValueOnce(sendError);
-    await sendTelegramNotification(message);
+    await expect(sendTelegramNotification(message)).rejects.toBe(sendError);
 
     expect(mockConstructor).toHaveBeenCalledTimes(1);
     expect(mockSendMessage).toHaveBeenCalledTimes(1);
-    expect(consoleErrorSpy).toHaveBeenCalledWith('Error sending Telegram notification:', sendError.message);
-    expect(consoleErrorSpy).toHaveBeenCalledWith(`[Failed Telegram Message]:\n${message}`);
+    expect(logger.error).toHaveBeenCalledWith('Error sending Telegram notification.', { error: sendError.message });
+    expect(logger.error).toHaveBeenCalledWith(`[Failed Telegram Message]:\n${message}`);
   });
 
-  it('should log a skip message if bot is not initialized (missing config)', async () => {
-    const message = 'This should be skipped.';
+  it('should fail if bot is not initialized (missing config)', async () => {
+    const message = 'This should not be sent.';
 
     // Temporarily override the config for this specific test
     // We need to re-import config or access the mocked module
@@ -116,17 +137,18 @@ describe('sendTelegramNotification', () => {
     // Re-import the notifier function to pick up the new mock
     const { sendTelegramNotification: sendNotificationWithMockedConfig } = await import('./notifier.js');
 
-    await sendNotificationWithMockedConfig(message);
+    // A quiet skip would be recorded as a delivery and the change lost
+    await expect(sendNotificationWithMockedConfig(message)).rejects.toThrow('TELEGRAM_BOT_TOKEN is not set');
 
     // Bot constructor should NOT be called because config check fails
     expect(mockConstructor).not.toHaveBeenCalled();
     expect(mockSendMessage).not.toHaveBeenCalled();
-    expect(consoleWarnSpy).toHaveBeenCalledWith('Telegram bot token or chat ID not provided. Telegram notifications disabled.');
-    expect(consoleLogSpy).toHaveBeenCalledWith('Telegram notifications are disabled. Skipping notification.');
-    expect(consoleLogSpy).toHaveBeenCalledWith(`[Telegram Notification Skipped]:\n${message}`);
+    expect(logger.warn).toHaveBeenCalledWith('Telegram bot token not provided. Telegram notifications disabled.');
+    expect(logger.error).toHaveBeenCalledWith('Telegram notifications are disabled. Notification not sent.', { error: expect.any(Error) });
+    expect(logger.error).toHaveBeenCalledWith(`[Failed Telegram Message]:\n${message}`);
 
-    // Clean up the specific mock
-    vi.doUnmock('./config.js');
+    // Restore the default config mock (vi.doUnmock would drop the mock entirely)
+    vi.doMock('./config.js', () => defaultConfigMock);
   });
 
   it('should handle errors during bot initialization and disable sending', async () => {
@@ -137,13 +159,12 @@ describe('sendTelegramNotification', () => {
     mockConstructor.mockImplementationOnce(() => { throw initError; });
 
     // Config is valid (uses default mock), so initialization will be attempted
-    await sendTelegramNotification(message);
+    await expect(sendTelegramNotification(message)).rejects.toBe(initError);
 
     expect(mockConstructor).toHaveBeenCalledWith(TEST_CONFIG_VALUES.telegramBotToken);
-    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to initialize Telegram bot:', initError);
-    expect(consoleLogSpy).toHaveBeenCalledWith('Telegram bot failed to initialize. Skipping notification.');
+    expect(logger.error).toHaveBeenCalledWith('Failed to initialize Telegram bot.', { error: initError });
+    expect(logger.error).toHaveBeenCalledWith('Telegram bot failed to initialize. Notification not sent.', { error: initError });
     expect(mockSendMessage).not.toHaveBeenCalled();
-    expect(consoleErrorSpy).toHaveBeenCalledWith('Initialization error details:', initError);
   });
 
   it('should handle non-Error object during bot initialization', async () => {
@@ -151,29 +172,70 @@ describe('sendTelegramNotification', () => {
     const initErrorString = 'Initialization failed unexpectedly';
     mockConstructor.mockImplementationOnce(() => { throw initErrorString; });
 
-    await sendTelegramNotification(message);
+    await expect(sendTelegramNotification(message)).rejects.toThrow(initErrorString);
 
     expect(mockConstructor).toHaveBeenCalledTimes(1);
-    expect(consoleErrorSpy).toHaveBeenCalledWith('Failed to initialize Telegram bot:', initErrorString);
-    expect(consoleErrorSpy).toHaveBeenCalledWith('Initialization error details:', expect.any(Error));
-    expect(consoleLogSpy).toHaveBeenCalledWith('Telegram bot failed to initialize. Skipping notification.');
+    expect(logger.error).toHaveBeenCalledWith('Failed to initialize Telegram bot.', { error: initErrorString });
+    expect(logger.error).toHaveBeenCalledWith('Telegram bot failed to initialize. Notification not sent.', { error: expect.any(Error) });
     expect(mockSendMessage).not.toHaveBeenCalled();
   });
 
+  it('should send long messages in several parts', async () => {
+    mockSendMessage.mockResolvedValue({});
+    const paragraph = 'a'.repeat(3000);
+    await sendTelegramNotification(`${paragraph}\n\n${paragraph}`);
+
+    expect(mockSendMessage).toHaveBeenCalledTimes(2);
+    expect(mockSendMessage).toHaveBeenNthCalledWith(1, TEST_CONFIG_VALUES.telegramChatId, paragraph, { parse_mode: 'MarkdownV2' });
+    expect(mockSendMessage).toHaveBeenNthCalledWith(2, TEST_CONFIG_VALUES.telegramChatId, paragraph, { parse_mode: 'MarkdownV2' });
+  });
+
+  it('should resume with the failed part when a long message is sent again', async () => {
+    const rateLimited = Object.assign(new Error('ETELEGRAM: 429 Too Many Requests'), {
+      response: { body: { ok: false, error_code: 429, parameters: { retry_after: 3 } } },
+    });
+    mockSendMessage.mockResolvedValueOnce({}).mockRejectedValueOnce(rateLimited).mockResolvedValue({});
+    const first = 'a'.repeat(3000);
+    const second = 'b'.repeat(3000);
+    const message = `${first}\n\n${second}`;
+
+    await expect(sendTelegramNotification(message)).rejects.toBe(rateLimited);
+    await sendTelegramNotification(message);
+
+    expect(mockSendMessage.mock.calls.map(([, text]) => text)).toEqual([first, second, second]);
+    expect(logger.info).toHaveBeenCalledWith('Resuming with part 2 of 2; the earlier parts were already sent.');
+
+    // Once delivered, the message is sent in full again
+    await sendTelegramNotification(message);
+    expect(mockSendMessage).toHaveBeenCalledTimes(5);
+  });
+
+  it('should resend as plain text when Telegram cannot parse the entities', async () => {
+    const parseError = Object.assign(new Error('ETELEGRAM: 400 Bad Request'), {
+      response: { body: { ok: false, error_code: 400, description: "Bad Request: can't parse entities: Character '.' is reserved" } },
+    });
+    mockSendMessage.mockRejectedValueOnce(parseError).mockResolvedValueOnce({});
+
+    await sendTelegramNotification('*Title*\n\nVersion 1\\.2 released.');
+
+    expect(mockSendMessage).toHaveBeenCalledTimes(2);
+    expect(mockSendMessage).toHaveBeenLastCalledWith(TEST_CONFIG_VALUES.telegramChatId, 'Title\n\nVersion 1.2 released.');
+    expect(logger.warn).toHaveBeenCalledWith('Telegram could not parse the MarkdownV2 message. Resending it as plain text.');
+  });
+
   it('should handle non-Error object when sendMessage fails', async () => {
     const message = 'Test with non-error rejection.';
     const sendErrorObject = { code: 'ETIMEOUT', custom: 'data' };
     mockSendMessage.mockRejectedValueOnce(sendErrorObject);
 
-    await sendTelegramNotification(message);
+    await expect(sendTelegramNotification(message)).rejects.toBe(sendErrorObject);
 
     expect(mockConstructor).toHaveBeenCalledTimes(1);
     expect(mockSendMessage).toHaveBeenCalledTimes(1);
-    expect(consoleErrorSpy).toHaveBeenCalledWith(
-      'Error sending Telegram notification:',
-      JSON.stringify(sendErrorObject)
-    );
-    expect(consoleErrorSpy).toHaveBeenCalledWith(`[Failed Telegram Message]:\n${message}`);
+    expect(logger.error).toHaveBeenCalledWith('Error sending Telegram notification.', {
+      error: JSON.stringify(sendErrorObject),
+    });
+    expect(logger.error).toHaveBeenCalledWith(`[Failed Telegram Message]:\n${message}`);
   });
 
 });
@@ -195,10 +257,10 @@ describe('escapeMarkdownV2', () => {
     expect(escapeMarkdownV2('')).toBe('');
   });
 
-  it('should handle text with already escaped characters (no double escaping)', () => {
-    const text = 'This is \\_already\\_ escaped\.\\!';
-    // The new regex with negative lookbehind should leave this unchanged.
-    expect(escapeMarkdownV2(text)).toBe(text);
+  it('should escape backslashes so existing escapes cannot break the markup', () => {
+    const text = 'This is \\_already\\_ escaped\\.';
+    // Each backslash and each special character is escaped, so Telegram shows the text verbatim
+    expect(escapeMarkdownV2(text)).toBe('This is \\\\\\_already\\\\\\_ escaped\\\\\\.');
   });
 
   it('should handle multiple occurrences of special characters', () => {
@@ -206,4 +268,363 @@ describe('escapeMarkdownV2', () => {
     const expected = '\\#hash\\-tag and another \\#hash\\-tag\\!';
     expect(escapeMarkdownV2(text)).toBe(expected);
   });
-}); 
\ No newline at end of file
+});
+
+// --- Test Suite for splitTelegramMessage ---
+describe('splitTelegramMessage', () => {
+  it('should return short messages unchanged', () => {
+    expect(splitTelegramMessage('short')).toEqual(['short']);
+  });
+
+  it('should split on paragraph boundaries and keep every part within the limit', () => {
+    const paragraphs = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+    const parts = splitTelegramMessage(paragraphs.join('\n\n'), 90);
+
+    expect(parts).toEqual([`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+  });
+
+  it('should close and reopen code blocks that have to be split', () => {
+    const lines = Array.from({ length: 6 }, (_, i) => `line ${i} ${'x'.repeat(10)}`);
+    const message = `*Error*:\n\`\`\`\n${lines.join('\n')}\n\`\`\``;
+    const parts = splitTelegramMessage(message, 60);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(part.length).toBeLessThanOrEqual(60);
+      expect(part.match(/```/g)).toHaveLength(2); // Every part has a complete code block
+    }
+    expect(parts.join('\n').replace(/\n```\n```/g, '')).toBe(message);
+  });
+
+  it('should keep blank lines inside code blocks from splitting the block', () => {
+    const message = `${'a'.repeat(30)}\n\n\`\`\`\nfirst\n\nsecond\n\`\`\``;
+    expect(splitTelegramMessage(message, 35)).toEqual(['a'.repeat(30), '```\nfirst\n\nsecond\n```']);
+  });
+
+  it('should hard-cut overlong lines without separating an escape from its character', () => {
+    const line = `${'a'.repeat(9)}\\.${'b'.repeat(9)}`;
+    const parts = splitTelegramMessage(line, 14); // Lines get 4 characters less, the room to close a code block
+
+    expect(parts[0]).toBe('a'.repeat(9));
+    expect(parts[1].startsWith('\\.')).toBe(true);
+    expect(parts.join('')).toBe(line);
+  });
+});
+
+// --- Test Suite for markdownV2ToPlainText ---
+describe('markdownV2ToPlainText', () => {
+  it('should resolve escapes and drop formatting characters', () => {
+    expect(markdownV2ToPlainText('*Title*\n• `/a\\_b`: 1 → 2\\!')).toBe('Title\n• /a_b: 1 → 2!');
+  });
+
+  it('should round-trip escaped text', () => {
+    const text = 'Price (USD) went up by 5.5% \\o/ _really_';
+    expect(markdownV2ToPlainText(escapeMarkdownV2(text))).toBe(text);
+  });
+});
+
+// --- Test Suite for formatChangesMarkdownV2 ---
+describe('formatChangesMarkdownV2', () => {
+  it('should list every operation with its escaped path', () => {
+    const formatted = formatChangesMarkdownV2([
+      { op: 'changed', path: '/items/3/price', oldValue: 10, newValue: 12 },
+      { op: 'added', path: '/items/4', newValue: { id: 5 } },
+      { op: 'removed', path: '/legacy_flag', oldValue: true },
+      { op: 'moved', path: '/items/0', from: '/items/2', oldValue: 'a', newValue: 'a' },
+    ]);
+    expect(formatted).toBe(
+      '*Changed fields:*\n' +
+      '• `/items/3/price`: 10 → 12\n' +
+      '• `/items/4` added: \\{"id":5\\}\n' +
+      '• `/legacy\\_flag` removed: true\n' +
+      '• `/items/0` moved from `/items/2`'
+    );
+  });
+
+  it('should summarize operations beyond the limit', () => {
+    const changes = Array.from({ length: 4 }, (_, i) => ({
+      op: 'added' as const,
+      path: `/items/${i}`,
+      newValue: i,
+    }));
+    const formatted = formatChangesMarkdownV2(changes, 2);
+    expect(formatted.split('\n')).toHaveLength(4);
+    expect(formatted).toContain('…and 2 more change\\(s\\)\\.');
+  });
+
+  it('should return an empty string without changes', () => {
+    expect(formatChangesMarkdownV2([])).toBe('');
+  });
+});
+
+// --- Test Suite for notification channels ---
+describe('notification channels', () => {
+  const changeEvent: NotificationEvent = {
+    kind: 'change',
+    watchId: 'prices',
+    title: 'JSON Update Detected: prices',
+    summary: 'Price of item 3 went up.',
+    changes: [{ op: 'changed', path: '/items/3/price', oldValue: 10, newValue: 12 }],
+    url: 'https://example.com/prices.json',
+    timestamp: '2025-01-01T00:00:00.000Z',
+  };
+
+  let fetchMock: Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should render Telegram messages with the title, summary and changed fields', () => {
+    expect(renderTelegramMessage(changeEvent)).toBe(
+      '*JSON Update Detected: prices*\n\n' +
+      'Price of item 3 went up\\.\n\n' +
+      '*Changed fields:*\n• `/items/3/price`: 10 → 12'
+    );
+  });
+
+  it('should render errors as a truncated code block for Telegram', () => {
+    const message = renderTelegramMessage({ ...changeEvent, kind: 'error', summary: 'x'.repeat(600) });
+    expect(message).toBe(`*JSON Update Detected: prices*:\n\`\`\`\n${'x'.repeat(500)}...[truncated]\n\`\`\``);
+  });
+
+  it('should render Slack payloads with escaped mrkdwn and a text fallback', () => {
+    const payload = renderSlackPayload({ ...changeEvent, summary: 'a < b & c' });
+    expect(payload.text).toBe('JSON Update Detected: prices: a < b & c');
+    expect(payload.blocks).toContainEqual({ type: 'section', text: { type: 'mrkdwn', text: 'a &lt; b &amp; c' } });
+    expect(payload.blocks).toContainEqual({
+      type: 'section',
+      text: { type: 'mrkdwn', text: '*Changed fields:*\n• `/items/3/price` 10 → 12' },
+    });
+  });
+
+  it('should render Discord payloads as a single embed', () => {
+    const payload = renderDiscordPayload(changeEvent) as { embeds: Record<string, unknown>[] };
+    expect(payload.embeds).toHaveLength(1);
+    expect(payload.embeds[0]).toMatchObject({
+      title: 'JSON Update Detected: prices',
+      description: 'Price of item 3 went up.',
+      url: 'https://example.com/prices.json',
+      fields: [{ name: '/items/3/price', value: '10 → 12' }],
+      footer: { text: 'prices' },
+      timestamp: '2025-01-01T00:00:00.000Z',
+    });
+  });
+
+  it('should post the rendered payload to Slack and Discord webhooks', async () => {
+    await createSlackChannel('https://hooks.slack.com/services/T/B/X').send(changeEvent);
+    await createDiscordChannel('https://discord.com/api/webhooks/1/abc').send(changeEvent);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [slackUrl, slackInit] = fetchMock.mock.calls[0];
+    expect(slackUrl).toBe('https://hooks.slack.com/services/T/B/X');
+    expect(JSON.parse(slackInit.body)).toEqual(renderSlackPayload(changeEvent));
+    const [discordUrl, discordInit] = fetchMock.mock.calls[1];
+    expect(discordUrl).toBe('https://discord.com/api/webhooks/1/abc');
+    expect(JSON.parse(discordInit.body)).toEqual(renderDiscordPayload(changeEvent));
+  });
+
+  it('should post the raw event with custom headers to generic webhooks', async () => {
+    const channel = createWebhookChannel('https://example.com/hook', { Authorization: 'Bearer secret' });
+    expect(channel.name).toBe('webhook:example.com');
+    await channel.send(changeEvent);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/hook', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+      body: JSON.stringify(changeEvent),
+    });
+  });
+
+  it('should reject when a webhook responds with an error status', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 500, statusText: 'Internal Server Error' }));
+    await expect(createSlackChannel('https://hooks.slack.com/services/T/B/X').send(changeEvent)).rejects.toThrow(
+      'Webhook responded with 500 Internal Server Error'
+    );
+  });
+
+  it('should expose the status and Retry-After of rate-limited webhooks', async () => {
+    fetchMock.mockResolvedValueOnce(
+      new Response(null, { status: 429, statusText: 'Too Many Requests', headers: { 'Retry-After': '7' } })
+    );
+    await expect(createDiscordChannel('https://discord.com/api/webhooks/1/abc').send(changeEvent)).rejects.toMatchObject({
+      status: 429,
+      retryAfterMs: 7000,
+    });
+  });
+
+  it('should render the severity, tags and highlights of rated changes', () => {
+    const ratedEvent: NotificationEvent = {
+      ...changeEvent,
+      title: 'prices: Price increase',
+      severity: 'critical',
+      tags: ['pricing'],
+      highlights: [{ path: '/items/3/price', before: '10', after: '12' }, { path: '/items/4', after: '{"id":4}' }],
+    };
+
+    expect(renderTelegramMessage(ratedEvent)).toBe(
+      '*prices: Price increase*\n_Severity: critical · Tags: pricing_\n\n' +
+      'Price of item 3 went up\\.\n\n' +
+      '*Highlights:*\n• `/items/3/price` 10 → 12\n• `/items/4` added: \\{"id":4\\}'
+    );
+    expect(renderSlackPayload(ratedEvent).blocks).toContainEqual({
+      type: 'section',
+      text: { type: 'mrkdwn', text: '*Highlights:*\n• `/items/3/price` 10 → 12\n• `/items/4` added: {"id":4}' },
+    });
+    expect((renderDiscordPayload(ratedEvent) as { embeds: Record<string, unknown>[] }).embeds[0]).toMatchObject({
+      color: 0xe74c3c,
+      fields: [{ name: '/items/3/price', value: '10 → 12' }, { name: '/items/4', value: 'added: {"id":4}' }],
+      footer: { text: 'prices · Severity: critical · Tags: pricing' },
+    });
+    expect(renderEmail(ratedEvent).text).toContain('prices: Price increase\n\nSeverity: critical · Tags: pricing\n\n');
+  });
+
+  it('should only send change events that meet the minimum severity of a channel', async () => {
+    const onCall = { id: 'on-call', name: 'on-call', minSeverity: 'critical' as const, send: vi.fn().mockResolvedValue(undefined) };
+    const team = { id: 'team', name: 'team', send: vi.fn().mockResolvedValue(undefined) };
+
+    await notifyChannels([onCall, team], { ...changeEvent, severity: 'major' });
+    expect(onCall.send).not.toHaveBeenCalled();
+    expect(team.send).toHaveBeenCalledTimes(1);
+
+    await notifyChannels([onCall, team], { ...changeEvent, severity: 'critical' });
+    expect(onCall.send).toHaveBeenCalledTimes(1);
+
+    // Other events are not rated and go to every channel
+    await notifyChannels([onCall, team], { ...changeEvent, kind: 'error' });
+    expect(onCall.send).toHaveBeenCalledTimes(2);
+    expect(createChannel({ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/x', minSeverity: 'major' }).minSeverity).toBe('major');
+  });
+
+  it('should create channels from their configuration', () => {
+    expect(createChannel({ type: 'telegram' }).name).toBe('telegram:MOCK_CHAT_ID');
+    expect(createChannel({ type: 'telegram', chatId: 'other' }).name).toBe('telegram:other');
+    expect(createChannel({ type: 'discord', webhookUrl: 'https://discord.com/api/webhooks/1/abc' }).name).toBe('discord');
+  });
+
+  it('should give every channel target a stable unique id without exposing it', () => {
+    const first = createChannel({ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/first' });
+    const second = createChannel({ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/second' });
+
+    expect(first.name).toBe(second.name);
+    expect(first.id).not.toBe(second.id);
+    expect(first.id).toMatch(/^slack:[0-9a-f]{12}$/);
+    expect(createChannel({ type: 'slack', webhookUrl: 'https://hooks.slack.com/services/first' }).id).toBe(first.id);
+  });
+
+  it('should keep notifying the remaining channels when one fails', async () => {
+    const failing = { id: 'broken', name: 'broken', send: vi.fn().mockRejectedValue(new Error('boom')) };
+    const working = { id: 'working', name: 'working', send: vi.fn().mockResolvedValue(undefined) };
+
+    const failed = await notifyChannels([failing, working], changeEvent);
+
+    expect(failed).toEqual(['broken']);
+    expect(working.send).toHaveBeenCalledWith(changeEvent);
+    expect(logger.error).toHaveBeenCalledWith('Error sending notification via broken.', { error: 'boom' });
+  });
+});
+
+// --- Test Suite for the email channel ---
+describe('email channel', () => {
+  const changeEvent: NotificationEvent = {
+    kind: 'change',
+    watchId: 'prices',
+    title: 'JSON Update Detected: prices',
+    summary: 'Price of <item> 3 went up.',
+    changes: [
+      { op: 'changed', path: '/items/3/price', oldValue: 10, newValue: 12 },
+      { op: 'added', path: '/items/4', newValue: { name: 'B&B' } },
+      { op: 'removed', path: '/legacy', oldValue: true },
+    ],
+    url: 'https://example.com/prices.json',
+    timestamp: '2025-01-01T00:00:00.000Z',
+  };
+
+  it('should render the summary and an HTML table of the changed paths', () => {
+    const email = renderEmail(changeEvent);
+
+    expect(email.subject).toBe('JSON Update Detected: prices');
+    expect(email.html).toContain('<p>Price of &lt;item&gt; 3 went up.</p>');
+    expect(email.html).toContain('<th style="border:1px solid #ddd;padding:4px 8px;text-align:left;vertical-align:top">Old value</th>');
+    expect(email.html).toMatch(/<code>\/items\/3\/price<\/code><\/td><td [^>]*>changed<\/td><td [^>]*><code>10<\/code><\/td><td [^>]*><code>12<\/code><\/td>/);
+    expect(email.html).toContain('<code>{&quot;name&quot;:&quot;B&amp;B&quot;}</code>');
+  });
+
+  it('should render a plain-text fallback', () => {
+    expect(renderEmail(changeEvent).text).toBe(
+      'JSON Update Detected: prices\n\n' +
+      'Price of <item> 3 went up.\n\n' +
+      'Changed fields:\n' +
+      '- /items/3/price 10 → 12\n' +
+      '- /items/4 added: {"name":"B&B"}\n' +
+      '- /legacy removed: true\n\n' +
+      'prices · https://example.com/prices.json · 2025-01-01T00:00:00.000Z'
+    );
+  });
+
+  it('should limit the number of listed changes', () => {
+    const email = renderEmail(changeEvent, 1);
+    expect(email.html).toContain('<p>…and 2 more change(s).</p>');
+    expect(email.text).toContain('…and 2 more change(s).');
+  });
+
+  it('should deliver the email through the configured SMTP server', async () => {
+    const received: { from: string; to: string[]; raw: string }[] = [];
+    const server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData(stream, session, callback) {
+        let raw = '';
+        stream.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+        stream.on('end', () => {
+          const { mailFrom, rcptTo } = session.envelope;
+          received.push({
+            from: mailFrom ? mailFrom.address : '',
+            to: rcptTo.map((recipient) => recipient.address),
+            raw,
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.server.address() as AddressInfo;
+
+    try {
+      vi.doMock('./config.js', () => ({
+        config: {
+          ...defaultConfigMock.config,
+          smtp: { host: '127.0.0.1', port, secure: false, user: '', pass: '', from: 'notifier@example.com' },
+        },
+      }));
+      vi.resetModules();
+      const { createEmailChannel: createEmailChannelWithSmtp } = await import('./notifier.js');
+
+      const channel = createEmailChannelWithSmtp(['ops@example.com', 'team@example.com']);
+      expect(channel.name).toBe('email:ops@example.com,team@example.com');
+      await channel.send(changeEvent);
+
+      expect(received).toHaveLength(1);
+      expect(received[0].from).toBe('notifier@example.com');
+      expect(received[0].to).toEqual(['ops@example.com', 'team@example.com']);
+      expect(received[0].raw).toContain('Subject: JSON Update Detected: prices');
+      expect(received[0].raw).toContain('Content-Type: text/plain');
+      expect(received[0].raw).toContain('Content-Type: text/html');
+    } finally {
+      vi.doMock('./config.js', () => defaultConfigMock);
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it('should reject when SMTP is not configured', async () => {
+    const channel = createChannel({ type: 'email', to: ['ops@example.com'] });
+    await expect(channel.send(changeEvent)).rejects.toThrow('SMTP_HOST is not set');
+  });
+});
@@ -1,5 +1,51 @@
+import crypto from 'crypto';
 import TelegramBot from 'node-telegram-bot-api';
-import { config } from './config.js';
+import nodemailer, { type Transporter } from 'nodemailer';
+import stringify from 'fast-json-stable-stringify';
+import { config, type ChannelConfig } from './config.js';
+import { type DiffOperation } from './comparer.js';
+import { parseRetryAfter } from './fetcher.js';
+import { type SchemaViolation } from './schema.js';
+import { type ChangeHighlight } from './aiProcessor.js';
+import { meetsSeverity, type Severity } from './severity.js';
+import { logger } from './logger.js';
+
+export type NotificationKind = 'change' | 'error' | 'recovered' | 'schema' | 'startup' | 'test' | 'warning';
+
+/**
+ * A structured notification. Every channel renders it for its own target.
+ */
+export interface NotificationEvent {
+  kind: NotificationKind;
+  watchId: string;
+  title: string; // Short headline, plain text
+  summary: string; // Body, plain text (e.g. the AI summary or an error message)
+  changes?: DiffOperation[];
+  severity?: Severity; // Severity of a "change" event, rated by the AI or the rules
+  highlights?: ChangeHighlight[]; // The most important changes, shown instead of the changed fields
+  tags?: string[];
+  violations?: SchemaViolation[]; // Failing paths of a "schema" event
+  url?: string;
+  timestamp: string; // ISO 8601
+}
+
+export interface NotificationChannel {
+  readonly id: string; // Unique per target; identifies the channel in the outbox, delivery log and metrics
+  readonly name: string; // For display only, not unique (e.g. every Slack webhook is "slack")
+  readonly minSeverity?: Severity; // Change events of a lower severity are not sent to the channel
+  /** Delivers the event. Rejects if the target did not accept it. */
+  send(event: NotificationEvent): Promise<void>;
+}
+
+/**
+ * Returns false for change events below the minimum severity of the channel. Other events,
+ * such as errors, always go to every channel.
+ * @param channel The channel, or its configuration.
+ */
+export function acceptsEvent(channel: Pick<NotificationChannel, 'minSeverity'>, event: NotificationEvent): boolean {
+  if (event.kind !== 'change' || !channel.minSeverity) return true;
+  return meetsSeverity(event.severity ?? 'info', channel.minSeverity);
+}
 
 // --- Lazy Bot Initialization ---
 let botInstance: TelegramBot | null = null;
@@ -10,16 +56,14 @@ function getBotInstance(): TelegramBot | null {
   if (!isBotInitialized) {
     isBotInitialized = true; // Mark as attempted
     try {
-      if (config.telegramBotToken && config.telegramChatId) {
+      if (config.telegramBotToken) {
         botInstance = new TelegramBot(config.telegramBotToken);
-        console.log('Telegram bot initialized on first use.');
+        logger.info('Telegram bot initialized on first use.');
       } else {
-        console.warn(
-          'Telegram bot token or chat ID not provided. Telegram notifications disabled.'
-        );
+        logger.warn('Telegram bot token not provided. Telegram notifications disabled.');
       }
     } catch (error: any) {
-      console.error('Failed to initialize Telegram bot:', error);
+      logger.error('Failed to initialize Telegram bot.', { error });
       botInitializationError = error instanceof Error ? error : new Error(String(error));
       botInstance = null; // Ensure it's null on error
     }
@@ -28,46 +72,604 @@ function getBotInstance(): TelegramBot | null {
 }
 // ---------------------------
 
+// Telegram rejects messages longer than this
+export const TELEGRAM_MAX_MESSAGE_LENGTH = 4096;
+const CODE_FENCE = '```';
+
+// Parts of long messages already sent when a later part failed, by chat and message, so a retry
+// of the delivery resumes with the failed part instead of repeating the earlier ones
+const sentTelegramParts = new Map<string, number>();
+const MAX_PARTIALLY_SENT_MESSAGES = 100;
+
+// True for the 400 Telegram answers when the MarkdownV2 entities cannot be parsed
+function isEntityParseError(error: any): boolean {
+  const body = error?.response?.body;
+  return body?.error_code === 400 && /can't parse entities/i.test(String(body.description ?? ''));
+}
+
 /**
- * Sends a message to the configured Telegram chat.
- * @param message The message text to send.
+ * Sends a message to the configured Telegram chat. Messages over Telegram's length limit are
+ * sent in several parts, and a part Telegram cannot parse as MarkdownV2 is resent as plain text.
+ * When a part fails, sending the same message again starts with that part.
+ * @param message The MarkdownV2 message text to send.
+ * @param chatId The chat to send to. Defaults to TELEGRAM_CHAT_ID.
+ * @throws If there is no bot (no token, or it failed to initialize) or Telegram rejects a part.
  */
-export async function sendTelegramNotification(message: string): Promise<void> {
+export async function sendTelegramNotification(
+  message: string,
+  chatId: string = config.telegramChatId
+): Promise<void> {
   const bot = getBotInstance(); // Get (or initialize) the bot instance
 
   if (!bot) {
-    const reason = botInitializationError
-      ? 'bot failed to initialize'
-      : 'notifications are disabled';
-    console.log(`Telegram ${reason}. Skipping notification.`);
-    // Log the message that would have been sent
-    console.log(`[Telegram Notification Skipped]:\n${message}`);
-    if (botInitializationError) {
-      // Log the specific initialization error as well when skipping
-      console.error('Initialization error details:', botInitializationError);
-    }
-    return;
+    // Failing keeps the change unseen; a quiet skip would be recorded as a delivery
+    const error = botInitializationError ?? new Error('TELEGRAM_BOT_TOKEN is not set');
+    logger.error(`Telegram ${botInitializationError ? 'bot failed to initialize' : 'notifications are disabled'}. Notification not sent.`, { error });
+    logger.error(`[Failed Telegram Message]:\n${message}`);
+    throw error;
   }
 
   try {
-    console.log(`Sending notification to Telegram chat ID: ${config.telegramChatId}`);
-    // Send message with Markdown parsing
-    await bot.sendMessage(config.telegramChatId!, message, { // Added non-null assertion for chatId, assuming bot wouldn't be created without it
-      parse_mode: 'MarkdownV2',
-    });
-    console.log('Successfully sent notification to Telegram.');
+    logger.info(`Sending notification to Telegram chat ID: ${chatId}`);
+    const parts = splitTelegramMessage(message);
+    if (parts.length > 1) {
+      logger.info(`Message exceeds ${TELEGRAM_MAX_MESSAGE_LENGTH} characters. Sending it in ${parts.length} parts.`);
+    }
+    const key = crypto.createHash('sha256').update(`${chatId}\n${message}`).digest('hex');
+    const alreadySent = sentTelegramParts.get(key) ?? 0;
+    if (alreadySent > 0) {
+      logger.info(`Resuming with part ${alreadySent + 1} of ${parts.length}; the earlier parts were already sent.`);
+    }
+    for (let index = alreadySent; index < parts.length; index++) {
+      const part = parts[index];
+      try {
+        // Send message with Markdown parsing
+        await bot.sendMessage(chatId, part, {
+          parse_mode: 'MarkdownV2',
+        });
+      } catch (error) {
+        if (!isEntityParseError(error)) throw error;
+        logger.warn('Telegram could not parse the MarkdownV2 message. Resending it as plain text.');
+        await bot.sendMessage(chatId, markdownV2ToPlainText(part));
+      }
+      if (index < parts.length - 1) {
+        sentTelegramParts.delete(key); // Re-inserted as the newest entry
+        sentTelegramParts.set(key, index + 1);
+        if (sentTelegramParts.size > MAX_PARTIALLY_SENT_MESSAGES) {
+          sentTelegramParts.delete(sentTelegramParts.keys().next().value!);
+        }
+      }
+    }
+    sentTelegramParts.delete(key);
+    logger.info('Successfully sent notification to Telegram.');
   } catch (error: any) {
-    console.error('Error sending Telegram notification:', error.message || error);
+    logger.error('Error sending Telegram notification.', {
+      error: error instanceof Error ? error.message : JSON.stringify(error),
+    });
     // Log the message that failed to send
-    console.error(`[Failed Telegram Message]:\n${message}`);
-    // Consider more robust error handling/retry logic if needed
+    logger.error(`[Failed Telegram Message]:\n${message}`);
+    // Let the delivery layer decide whether to retry (Telegram errors carry retry_after on 429)
+    throw error;
   }
 }
 
 // Helper function to escape MarkdownV2 characters
-// Telegram requires escaping characters like ., -, _, *, etc.
+// Telegram requires escaping characters like ., -, _, *, etc. Backslashes are escaped too, so text
+// that already contains them (e.g. AI output) cannot produce an unbalanced escape sequence.
 export function escapeMarkdownV2(text: string): string {
-  // Escape characters: _ * [ ] ( ) ~ ` > # + - = | { } . !
-  // Use negative lookbehind (?<!\\) to avoid escaping already escaped characters.
-  return text.replace(/(?<!\\)([\_*[\]()~`>#+\-=|{}.!])/g, '\\$1');
-} 
\ No newline at end of file
+  // Escape characters: \ _ * [ ] ( ) ~ ` > # + - = | { } . !
+  return text.replace(/([\\_*[\]()~`>#+\-=|{}.!])/g, '\\$1');
+}
+
+/**
+ * Turns a MarkdownV2 message into plain text: escape sequences are resolved and formatting
+ * characters dropped.
+ */
+export function markdownV2ToPlainText(text: string): string {
+  return text.replace(/\\([\s\S])|[*_~|`]/g, (_match, escaped: string | undefined) => escaped ?? '');
+}
+
+// Splits text into paragraphs at blank lines, keeping fenced code blocks in one piece
+function splitParagraphs(text: string): string[] {
+  const paragraphs: string[] = [];
+  let current: string[] = [];
+  let inCode = false;
+  for (const line of text.split('\n')) {
+    if (line.startsWith(CODE_FENCE)) inCode = !inCode;
+    if (!inCode && line === '') {
+      if (current.length > 0) paragraphs.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+    current.push(line);
+  }
+  if (current.length > 0) paragraphs.push(current.join('\n'));
+  return paragraphs;
+}
+
+// Cuts a single line into pieces, never separating an escape backslash from its character
+function splitLine(line: string, maxLength: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+  while (rest.length > maxLength) {
+    let cut = maxLength;
+    let backslashes = 0;
+    while (backslashes < cut && rest[cut - 1 - backslashes] === '\\') backslashes++;
+    if (backslashes % 2 === 1) cut--;
+    pieces.push(rest.slice(0, cut));
+    rest = rest.slice(cut);
+  }
+  pieces.push(rest);
+  return pieces;
+}
+
+// Splits an oversized paragraph at line boundaries. A code block cut in two is closed at the end
+// of one part and reopened at the start of the next.
+function splitParagraphLines(paragraph: string, maxLength: number): string[] {
+  const closing = `\n${CODE_FENCE}`;
+  const parts: string[] = [];
+  let current: string[] = [];
+  let openFence: string | null = null; // Opening fence of the code block we are in
+
+  const limit = maxLength - closing.length; // Room to close a code block that is cut
+  for (const line of paragraph.split('\n')) {
+    const isFence = line.startsWith(CODE_FENCE);
+    const lineLimit = isFence && openFence ? maxLength : limit; // A closing fence needs no extra room
+    const prefixLength = openFence ? openFence.length + 1 : 0;
+    for (const piece of splitLine(line, limit - prefixLength)) {
+      const candidate = [...current, piece].join('\n');
+      if (candidate.length > lineLimit && current.length > 0) {
+        parts.push(openFence ? current.join('\n') + closing : current.join('\n'));
+        current = openFence ? [openFence, piece] : [piece];
+      } else {
+        current.push(piece);
+      }
+    }
+    if (isFence) openFence = openFence ? null : line;
+  }
+  if (current.length > 0) parts.push(current.join('\n'));
+  return parts;
+}
+
+/**
+ * Splits a MarkdownV2 message into parts Telegram accepts, preferring paragraph boundaries and
+ * keeping code blocks intact where possible.
+ * @param message The message text.
+ * @param maxLength The maximum length of a part.
+ * @returns The parts in order. A message within the limit is returned unchanged.
+ */
+export function splitTelegramMessage(message: string, maxLength = TELEGRAM_MAX_MESSAGE_LENGTH): string[] {
+  if (message.length <= maxLength) return [message];
+
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of splitParagraphs(message)) {
+    const candidate = current ? `${current}\n\n${paragraph}` : paragraph;
+    if (candidate.length <= maxLength) {
+      current = candidate;
+      continue;
+    }
+    if (current) parts.push(current);
+    if (paragraph.length <= maxLength) {
+      current = paragraph;
+      continue;
+    }
+    const pieces = splitParagraphLines(paragraph, maxLength);
+    parts.push(...pieces.slice(0, -1));
+    current = pieces[pieces.length - 1];
+  }
+  if (current) parts.push(current);
+  return parts;
+}
+
+function formatPreview(value: unknown, maxLength = 60): string {
+  const text = value === undefined ? 'undefined' : JSON.stringify(value);
+  return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
+
+/**
+ * Renders the changed paths as a MarkdownV2 list so notifications name the exact fields.
+ * @param changes The structural diff operations.
+ * @param maxItems Maximum number of operations to list before summarizing the rest.
+ * @returns The escaped MarkdownV2 block, or an empty string if there are no changes.
+ */
+export function formatChangesMarkdownV2(changes: DiffOperation[], maxItems = 10): string {
+  if (changes.length === 0) return '';
+
+  const lines = changes.slice(0, maxItems).map((change) => {
+    const path = escapeMarkdownV2(change.path || '/');
+    switch (change.op) {
+      case 'added':
+        return `• \`${path}\` added: ${escapeMarkdownV2(formatPreview(change.newValue))}`;
+      case 'removed':
+        return `• \`${path}\` removed: ${escapeMarkdownV2(formatPreview(change.oldValue))}`;
+      case 'changed':
+        return `• \`${path}\`: ${escapeMarkdownV2(formatPreview(change.oldValue))} → ${escapeMarkdownV2(formatPreview(change.newValue))}`;
+      case 'moved':
+        return `• \`${path}\` moved from \`${escapeMarkdownV2(change.from ?? '')}\``;
+    }
+  });
+  if (changes.length > maxItems) {
+    lines.push(escapeMarkdownV2(`…and ${changes.length - maxItems} more change(s).`));
+  }
+  return `*Changed fields:*\n${lines.join('\n')}`;
+}
+
+/**
+ * Describes a single change in plain text, as the non-Telegram channels list it.
+ */
+export function describeChange(change: DiffOperation): string {
+  switch (change.op) {
+    case 'added':
+      return `added: ${formatPreview(change.newValue)}`;
+    case 'removed':
+      return `removed: ${formatPreview(change.oldValue)}`;
+    case 'changed':
+      return `${formatPreview(change.oldValue)} → ${formatPreview(change.newValue)}`;
+    case 'moved':
+      return `moved from ${change.from}`;
+  }
+}
+
+/**
+ * Describes a highlighted change in plain text, like `describeChange` does for diff operations.
+ */
+export function describeHighlight({ before, after }: ChangeHighlight): string {
+  const preview = (text: string) => (text.length > 60 ? `${text.substring(0, 60)}…` : text);
+  if (before === undefined) return `added: ${preview(after ?? 'undefined')}`;
+  if (after === undefined) return `removed: ${preview(before)}`;
+  return `${preview(before)} → ${preview(after)}`;
+}
+
+/**
+ * Describes the severity and tags of an event in one plain-text line.
+ * @returns The line, or an empty string if the event has neither.
+ */
+export function describeSeverity(event: NotificationEvent): string {
+  const parts: string[] = [];
+  if (event.severity) parts.push(`Severity: ${event.severity}`);
+  if (event.tags && event.tags.length > 0) parts.push(`Tags: ${event.tags.join(', ')}`);
+  return parts.join(' · ');
+}
+
+/**
+ * Renders an event as a Telegram MarkdownV2 message.
+ */
+export function renderTelegramMessage(event: NotificationEvent): string {
+  const title = `*${escapeMarkdownV2(event.title)}*`;
+  if (event.kind === 'error') {
+    // Errors go into a code block, limited in length
+    const truncated = event.summary.length > 500;
+    return `${title}:\n\`\`\`\n${escapeMarkdownV2(event.summary.substring(0, 500))}${truncated ? '...[truncated]' : ''}\n\`\`\``;
+  }
+  const severity = describeSeverity(event);
+  const parts = [severity ? `${title}\n_${escapeMarkdownV2(severity)}_` : title, escapeMarkdownV2(event.summary)];
+  if (event.highlights && event.highlights.length > 0) {
+    const lines = event.highlights.map(
+      (highlight) => `• \`${escapeMarkdownV2(highlight.path || '/')}\` ${escapeMarkdownV2(describeHighlight(highlight))}`
+    );
+    parts.push(`*Highlights:*\n${lines.join('\n')}`);
+  } else {
+    const changes = formatChangesMarkdownV2(event.changes ?? []);
+    if (changes) parts.push(changes);
+  }
+  return parts.join('\n\n');
+}
+
+// Slack mrkdwn only requires escaping of &, < and >
+function escapeSlack(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Renders an event as a Slack incoming-webhook payload (Block Kit with a plain-text fallback).
+ */
+export function renderSlackPayload(event: NotificationEvent, maxChanges = 10): Record<string, unknown> {
+  const blocks: Record<string, unknown>[] = [
+    { type: 'header', text: { type: 'plain_text', text: event.title.substring(0, 150) } },
+    {
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: escapeSlack(event.kind === 'error' ? `\`\`\`${event.summary.substring(0, 2900)}\`\`\`` : event.summary.substring(0, 3000)),
+      },
+    },
+  ];
+  const changes = event.changes ?? [];
+  if (event.highlights && event.highlights.length > 0) {
+    const lines = event.highlights.map(
+      (highlight) => `• \`${escapeSlack(highlight.path || '/')}\` ${escapeSlack(describeHighlight(highlight))}`
+    );
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*Highlights:*\n${lines.join('\n')}` } });
+  } else if (changes.length > 0) {
+    const lines = changes
+      .slice(0, maxChanges)
+      .map((change) => `• \`${escapeSlack(change.path || '/')}\` ${escapeSlack(describeChange(change))}`);
+    if (changes.length > maxChanges) lines.push(`…and ${changes.length - maxChanges} more change(s).`);
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: `*Changed fields:*\n${lines.join('\n')}` } });
+  }
+  const severity = describeSeverity(event);
+  blocks.push({
+    type: 'context',
+    elements: [{
+      type: 'mrkdwn',
+      text: escapeSlack(`${severity ? `${severity} · ` : ''}${event.watchId}${event.url ? ` · ${event.url}` : ''} · ${event.timestamp}`),
+    }],
+  });
+  return { text: `${event.title}: ${event.summary}`.substring(0, 3000), blocks };
+}
+
+const DISCORD_COLORS: Record<NotificationKind, number> = {
+  change: 0x3498db,
+  error: 0xe74c3c,
+  recovered: 0x2ecc71,
+  schema: 0xe67e22,
+  startup: 0x2ecc71,
+  test: 0x95a5a6,
+  warning: 0xf1c40f,
+};
+
+// Colors of change events by severity, from blue to red
+const SEVERITY_COLORS: Record<Severity, number> = {
+  info: 0x3498db,
+  minor: 0xf1c40f,
+  major: 0xe67e22,
+  critical: 0xe74c3c,
+};
+
+/**
+ * Renders an event as a Discord webhook payload with a single embed.
+ */
+export function renderDiscordPayload(event: NotificationEvent, maxChanges = 10): Record<string, unknown> {
+  const changes = event.changes ?? [];
+  const highlights = event.highlights ?? [];
+  const fields = highlights.length > 0
+    ? highlights.map((highlight) => ({
+      name: (highlight.path || '/').substring(0, 256),
+      value: describeHighlight(highlight).substring(0, 1024),
+    }))
+    : changes.slice(0, maxChanges).map((change) => ({
+      name: (change.path || '/').substring(0, 256),
+      value: describeChange(change).substring(0, 1024),
+    }));
+  if (highlights.length === 0 && changes.length > maxChanges) {
+    fields.push({ name: '…', value: `and ${changes.length - maxChanges} more change(s)` });
+  }
+  const severity = describeSeverity(event);
+  return {
+    embeds: [
+      {
+        title: event.title.substring(0, 256),
+        description: event.kind === 'error' ? `\`\`\`\n${event.summary.substring(0, 4000)}\n\`\`\`` : event.summary.substring(0, 4096),
+        url: event.url,
+        color: event.kind === 'change' && event.severity ? SEVERITY_COLORS[event.severity] : DISCORD_COLORS[event.kind],
+        fields,
+        footer: { text: severity ? `${event.watchId} · ${severity}` : event.watchId },
+        timestamp: event.timestamp,
+      },
+    ],
+  };
+}
+
+// --- Email ---
+let mailTransport: Transporter | null = null;
+
+// Creates the SMTP transport on first use, shared by all email channels
+function getMailTransport(): Transporter {
+  if (!mailTransport) {
+    if (!config.smtp.host) {
+      throw new Error('SMTP_HOST is not set. Email notifications disabled.');
+    }
+    mailTransport = nodemailer.createTransport({
+      host: config.smtp.host,
+      port: config.smtp.port,
+      secure: config.smtp.secure,
+      auth: config.smtp.user ? { user: config.smtp.user, pass: config.smtp.pass } : undefined,
+    });
+    logger.info(`SMTP transport initialized for ${config.smtp.host}:${config.smtp.port}.`);
+  }
+  return mailTransport;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+/**
+ * Renders an event as an email: the summary plus a table of the changed paths with their
+ * old and new values, and the same content as plain text for clients without HTML.
+ */
+export function renderEmail(event: NotificationEvent, maxChanges = 50): EmailContent {
+  const changes = event.changes ?? [];
+  const listed = changes.slice(0, maxChanges);
+  const remaining = changes.length - listed.length;
+  const footer = `${event.watchId}${event.url ? ` · ${event.url}` : ''} · ${event.timestamp}`;
+
+  const severity = describeSeverity(event);
+  const highlights = (event.highlights ?? []).map((highlight) => `${highlight.path || '/'} ${describeHighlight(highlight)}`);
+
+  // Plain-text fallback
+  const textParts = severity ? [event.title, severity, event.summary] : [event.title, event.summary];
+  if (highlights.length > 0) textParts.push(`Highlights:\n${highlights.map((line) => `- ${line}`).join('\n')}`);
+  if (listed.length > 0) {
+    const lines = listed.map((change) => `- ${change.path || '/'} ${describeChange(change)}`);
+    if (remaining > 0) lines.push(`…and ${remaining} more change(s).`);
+    textParts.push(`Changed fields:\n${lines.join('\n')}`);
+  }
+  textParts.push(footer);
+
+  // HTML version
+  const cell = 'style="border:1px solid #ddd;padding:4px 8px;text-align:left;vertical-align:top"';
+  const value = (v: unknown) => (v === undefined ? '' : `<code>${escapeHtml(formatPreview(v, 200))}</code>`);
+  const summaryHtml = event.kind === 'error'
+    ? `<pre>${escapeHtml(event.summary)}</pre>`
+    : `<p>${escapeHtml(event.summary).replace(/\n/g, '<br>')}</p>`;
+  const htmlParts = [`<h2>${escapeHtml(event.title)}</h2>`];
+  if (severity) htmlParts.push(`<p><strong>${escapeHtml(severity)}</strong></p>`);
+  htmlParts.push(summaryHtml);
+  if (highlights.length > 0) {
+    htmlParts.push(`<p><strong>Highlights:</strong></p><ul>${highlights.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`);
+  }
+  if (listed.length > 0) {
+    const rows = listed.map((change) => {
+      const path = change.op === 'moved' ? `${change.from} → ${change.path}` : change.path || '/';
+      return `<tr><td ${cell}><code>${escapeHtml(path)}</code></td><td ${cell}>${change.op}</td>` +
+        `<td ${cell}>${change.op === 'added' ? '' : value(change.oldValue)}</td>` +
+        `<td ${cell}>${change.op === 'removed' ? '' : value(change.newValue)}</td></tr>`;
+    });
+    htmlParts.push(
+      '<table style="border-collapse:collapse">' +
+      `<thead><tr><th ${cell}>Path</th><th ${cell}>Change</th><th ${cell}>Old value</th><th ${cell}>New value</th></tr></thead>` +
+      `<tbody>${rows.join('')}</tbody></table>`
+    );
+    if (remaining > 0) htmlParts.push(`<p>…and ${remaining} more change(s).</p>`);
+  }
+  htmlParts.push(`<p style="color:#888">${escapeHtml(footer)}</p>`);
+
+  return { subject: event.title, text: textParts.join('\n\n'), html: htmlParts.join('\n') };
+}
+// ---------------------------
+
+/**
+ * Error of a channel whose target answered with an HTTP error status.
+ * `retryAfterMs` is set when the target asked to wait (Retry-After header).
+ */
+export interface HttpDeliveryError extends Error {
+  status: number;
+  retryAfterMs?: number;
+}
+
+async function postJson(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    const error = new Error(`Webhook responded with ${response.status} ${response.statusText}`) as HttpDeliveryError;
+    error.status = response.status;
+    error.retryAfterMs = parseRetryAfter(response.headers.get('retry-after'));
+    throw error;
+  }
+}
+
+// Id of a channel: its type and a hash of its target, which keeps secrets in webhook URLs out of logs and metrics
+function channelId(type: ChannelConfig['type'], target: unknown): string {
+  return `${type}:${crypto.createHash('sha256').update(stringify(target)).digest('hex').substring(0, 12)}`;
+}
+
+/**
+ * Creates a channel that posts to a Telegram chat through the shared bot.
+ */
+export function createTelegramChannel(chatId: string): NotificationChannel {
+  return {
+    id: channelId('telegram', { chatId }),
+    name: `telegram:${chatId}`,
+    send: (event) => sendTelegramNotification(renderTelegramMessage(event), chatId),
+  };
+}
+
+/**
+ * Creates a channel that posts to a Slack incoming webhook.
+ */
+export function createSlackChannel(webhookUrl: string): NotificationChannel {
+  return {
+    id: channelId('slack', { webhookUrl }),
+    name: 'slack',
+    send: (event) => postJson(webhookUrl, renderSlackPayload(event)),
+  };
+}
+
+/**
+ * Creates a channel that posts to a Discord webhook.
+ */
+export function createDiscordChannel(webhookUrl: string): NotificationChannel {
+  return {
+    id: channelId('discord', { webhookUrl }),
+    name: 'discord',
+    send: (event) => postJson(webhookUrl, renderDiscordPayload(event)),
+  };
+}
+
+/**
+ * Creates a channel that POSTs the raw event as JSON to any URL.
+ */
+export function createWebhookChannel(url: string, headers: Record<string, string> = {}): NotificationChannel {
+  return {
+    id: channelId('webhook', { url, headers }),
+    name: `webhook:${new URL(url).host}`,
+    send: (event) => postJson(url, event, headers),
+  };
+}
+
+/**
+ * Creates a channel that sends an email through the configured SMTP server.
+ * @param to The recipients.
+ * @param from The sender. Defaults to SMTP_FROM.
+ */
+export function createEmailChannel(to: string[], from: string = config.smtp.from): NotificationChannel {
+  return {
+    id: channelId('email', { to, from }),
+    name: `email:${to.join(',')}`,
+    send: async (event) => {
+      await getMailTransport().sendMail({ from, to, ...renderEmail(event) });
+    },
+  };
+}
+
+/**
+ * Builds a channel from its configuration.
+ */
+export function createChannel(channel: ChannelConfig): NotificationChannel {
+  return { ...createTarget(channel), minSeverity: channel.minSeverity };
+}
+
+// Creates the channel of the target the configuration points to
+function createTarget(channel: ChannelConfig): NotificationChannel {
+  switch (channel.type) {
+    case 'telegram':
+      return createTelegramChannel(channel.chatId || config.telegramChatId);
+    case 'slack':
+      return createSlackChannel(channel.webhookUrl);
+    case 'discord':
+      return createDiscordChannel(channel.webhookUrl);
+    case 'webhook':
+      return createWebhookChannel(channel.url, channel.headers);
+    case 'email':
+      return createEmailChannel(channel.to, channel.from);
+  }
+}
+
+/**
+ * Sends an event to every channel that accepts it. A failing channel is logged and does not
+ * stop the others.
+ * @returns The names of the channels that failed.
+ */
+export async function notifyChannels(
+  channels: NotificationChannel[],
+  event: NotificationEvent
+): Promise<string[]> {
+  const failed: string[] = [];
+  await Promise.all(
+    channels.filter((channel) => acceptsEvent(channel, event)).map(async (channel) => {
+      try {
+        await channel.send(event);
+      } catch (error: any) {
+        logger.error(`Error sending notification via ${channel.name}.`, { error: error.message || error });
+        failed.push(channel.name);
+      }
+    })
+  );
+  return failed;
+}
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { getValueAtPath, matchesPath, mayMatchBelow, parsePathPattern } from './pathMatcher.js';
+
+describe('parsePathPattern', () => {
+  it('should parse dotted and bracket segments', () => {
+    expect(parsePathPattern('items[*].id')).toEqual(['items', '*', 'id']);
+    expect(parsePathPattern('data.items[0].price')).toEqual(['data', 'items', '0', 'price']);
+  });
+
+  it('should accept a leading JSONPath "$" and quoted keys', () => {
+    expect(parsePathPattern("$.meta['generated-at']")).toEqual(['meta', 'generated-at']);
+    expect(parsePathPattern('$["a.b"].c')).toEqual(['a.b', 'c']);
+  });
+
+  it('should parse JSON Pointer style patterns', () => {
+    expect(parsePathPattern('/items/*/a~1b')).toEqual(['items', '*', 'a/b']);
+  });
+
+  it('should reject malformed patterns', () => {
+    expect(() => parsePathPattern('items[*')).toThrow('missing "]"');
+    expect(() => parsePathPattern('items..id')).toThrow('empty segment');
+  });
+});
+
+describe('matchesPath', () => {
+  it('should match exact paths and single-segment wildcards', () => {
+    expect(matchesPath(['items', '*', 'id'], ['items', 3, 'id'])).toBe(true);
+    expect(matchesPath(['items', '*', 'id'], ['items', 3, 'name'])).toBe(false);
+    expect(matchesPath(['items', '*'], ['items'])).toBe(false);
+  });
+
+  it('should match any depth with "**"', () => {
+    expect(matchesPath(['**', 'updatedAt'], ['updatedAt'])).toBe(true);
+    expect(matchesPath(['**', 'updatedAt'], ['items', 0, 'meta', 'updatedAt'])).toBe(true);
+    expect(matchesPath(['items', '**'], ['items', 0, 'price'])).toBe(true);
+    expect(matchesPath(['**', 'updatedAt'], ['items', 0, 'createdAt'])).toBe(false);
+  });
+});
+
+describe('mayMatchBelow', () => {
+  it('should detect ancestors of possible matches', () => {
+    expect(mayMatchBelow(['items', '*', 'price'], [])).toBe(true);
+    expect(mayMatchBelow(['items', '*', 'price'], ['items', 2])).toBe(true);
+    expect(mayMatchBelow(['items', '*', 'price'], ['items', 2, 'price'])).toBe(true);
+    expect(mayMatchBelow(['items', '*', 'price'], ['other'])).toBe(false);
+    expect(mayMatchBelow(['items', '*', 'price'], ['items', 2, 'price', 'x'])).toBe(false);
+  });
+
+  it('should allow any descendant after "**"', () => {
+    expect(mayMatchBelow(['**', 'requestId'], ['anything', 'deep'])).toBe(true);
+  });
+});
+
+describe('getValueAtPath', () => {
+  it('should resolve nested keys and indices', () => {
+    expect(getValueAtPath({ a: [{ b: 1 }] }, ['a', 0, 'b'])).toBe(1);
+    expect(getValueAtPath({ a: [{ b: 1 }] }, ['a', '0', 'b'])).toBe(1);
+  });
+
+  it('should return undefined for missing or inherited keys', () => {
+    expect(getValueAtPath({ a: 1 }, ['b'])).toBeUndefined();
+    expect(getValueAtPath({ a: 1 }, ['a', 'b'])).toBeUndefined();
+    expect(getValueAtPath({}, ['constructor'])).toBeUndefined();
+  });
+});
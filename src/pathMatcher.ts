@@ -0,0 +1,109 @@
+/**
+ * Path patterns address values inside a JSON document. Supported syntaxes:
+ * - Dotted/JSONPath style: `items[*].id`, `$.data.items[0].price`, `meta['generated-at']`
+ * - JSON Pointer style: `/items/*\/id`
+ * `*` matches exactly one key or index, `**` matches any number of them (including none).
+ */
+export type PathPattern = string[];
+
+type PathSegment = string | number;
+
+/**
+ * Parses a path pattern into its segments.
+ * @param pattern The pattern, e.g. "items[*].id" or "/items/*\/id".
+ * @returns The segments, e.g. ['items', '*', 'id'].
+ */
+export function parsePathPattern(pattern: string): PathPattern {
+  const trimmed = pattern.trim();
+  if (trimmed.startsWith('/')) {
+    return trimmed
+      .slice(1)
+      .split('/')
+      .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+  }
+
+  const source = trimmed.replace(/^\$/, '');
+  const segments: PathPattern = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '.') {
+      if (index + 1 === source.length || source[index + 1] === '.') {
+        throw new Error(`Invalid path pattern "${pattern}": empty segment`);
+      }
+      index++;
+      continue;
+    }
+    if (char === '[') {
+      const end = source.indexOf(']', index);
+      if (end === -1) {
+        throw new Error(`Invalid path pattern "${pattern}": missing "]"`);
+      }
+      const inner = source.slice(index + 1, end).trim();
+      segments.push(inner.replace(/^(['"])(.*)\1$/, '$2'));
+      index = end + 1;
+      continue;
+    }
+    let end = index;
+    while (end < source.length && source[end] !== '.' && source[end] !== '[') end++;
+    segments.push(source.slice(index, end));
+    index = end;
+  }
+
+  if (segments.some((segment) => segment === '')) {
+    throw new Error(`Invalid path pattern "${pattern}": empty segment`);
+  }
+  return segments;
+}
+
+/**
+ * Checks whether a concrete path is matched by a pattern.
+ * @param pattern The parsed pattern.
+ * @param path The object keys and array indices of a value.
+ */
+export function matchesPath(pattern: PathPattern, path: PathSegment[]): boolean {
+  return matchFrom(pattern, 0, path.map(String), 0);
+}
+
+/**
+ * Checks whether a pattern could match the given path or one of its descendants.
+ * Used to skip subtrees that cannot contain a match.
+ * @param pattern The parsed pattern.
+ * @param path The object keys and array indices of a value.
+ */
+export function mayMatchBelow(pattern: PathPattern, path: PathSegment[]): boolean {
+  const segments = path.map(String);
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '**') return true; // "**" can absorb the rest of the path
+    if (i === segments.length) return true;
+    if (pattern[i] !== '*' && pattern[i] !== segments[i]) return false;
+  }
+  return segments.length <= pattern.length;
+}
+
+function matchFrom(pattern: PathPattern, pi: number, path: string[], si: number): boolean {
+  if (pi === pattern.length) return si === path.length;
+  if (pattern[pi] === '**') {
+    for (let skip = si; skip <= path.length; skip++) {
+      if (matchFrom(pattern, pi + 1, path, skip)) return true;
+    }
+    return false;
+  }
+  if (si === path.length) return false;
+  if (pattern[pi] !== '*' && pattern[pi] !== path[si]) return false;
+  return matchFrom(pattern, pi + 1, path, si + 1);
+}
+
+/**
+ * Resolves a plain (wildcard-free) relative path inside a value.
+ * @returns The value found, or undefined if any segment is missing.
+ */
+export function getValueAtPath(value: unknown, path: PathSegment[]): unknown {
+  let current = value;
+  for (const segment of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
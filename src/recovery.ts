@@ -0,0 +1,25 @@
+import { logger } from './logger.js';
+
+// Recoveries from corrupt state files per watch, waiting to be announced
+const noticesByWatch = new Map<string, string[]>();
+
+/**
+ * Records that storage had to recover from a corrupt file. The check carries on; the notice is
+ * announced to the watch's channels once the check is over.
+ * @param stateFilePath The state file of the affected watch.
+ * @param message What was corrupt and what was done about it.
+ */
+export function reportRecovery(stateFilePath: string, message: string): void {
+  logger.warn(`Recovered from corrupt state: ${message}`);
+  noticesByWatch.set(stateFilePath, [...(noticesByWatch.get(stateFilePath) ?? []), message]);
+}
+
+/**
+ * Returns and forgets the recovery notices of a watch.
+ * @param stateFilePath The state file of the watch.
+ */
+export function takeRecoveryNotices(stateFilePath: string): string[] {
+  const notices = noticesByWatch.get(stateFilePath) ?? [];
+  noticesByWatch.delete(stateFilePath);
+  return notices;
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateRules, findRuleMatches, ruleSchema, type Rule } from './rules.js';
+import { compareJson } from './comparer.js';
+
+// Runs the rules against the structural diff of two states
+function evaluate(rules: Rule[], oldState: object, newState: object) {
+  const changes = compareJson(oldState, newState) ?? [];
+  return evaluateRules(rules, changes, oldState, newState);
+}
+
+describe('rules', () => {
+  const oldState = {
+    status: 'open',
+    items: [
+      { id: 1, price: 100 },
+      { id: 2, price: 50 },
+    ],
+  };
+
+  it('should report a price decrease beyond the percentage threshold', () => {
+    const newState = { ...oldState, items: [{ id: 1, price: 85 }, { id: 2, price: 48 }] };
+    const result = evaluate([{ path: 'items[*].price', when: 'decreased', byPercent: 10 }], oldState, newState);
+    expect(result).toEqual({
+      isWorthToReport: true,
+      reportedChanges: '- /items/0/price decreased from 100 to 85 (-15.0%)',
+      severity: 'info',
+      title: '/items/0/price decreased from 100 to 85 (-15.0%)',
+      highlights: [{ path: '/items/0/price', before: '100', after: '85' }],
+      tags: [],
+    });
+  });
+
+  it('should not report changes below the threshold or in the other direction', () => {
+    const newState = { ...oldState, items: [{ id: 1, price: 95 }, { id: 2, price: 70 }] };
+    const result = evaluate([{ path: 'items[*].price', when: 'decreased', byPercent: 10 }], oldState, newState);
+    expect(result.isWorthToReport).toBe(false);
+    expect(result.reportedChanges).toBe('No rule matched the detected changes.');
+  });
+
+  it('should apply absolute thresholds to increases', () => {
+    const newState = { ...oldState, items: [{ id: 1, price: 104 }, { id: 2, price: 60 }] };
+    const matches = findRuleMatches(
+      [{ path: 'items[*].price', when: 'increased', byAmount: 5 }],
+      compareJson(oldState, newState) ?? [],
+      oldState,
+      newState
+    );
+    expect(matches.map((m) => m.path)).toEqual(['/items/1/price']);
+  });
+
+  it('should report a status changing to a specific value', () => {
+    const newState = { ...oldState, status: 'closed' };
+    expect(evaluate([{ path: 'status', when: 'changedTo', value: 'closed' }], oldState, newState)).toEqual({
+      isWorthToReport: true,
+      reportedChanges: '- /status changed to "closed" (was "open")',
+      severity: 'info',
+      title: '/status changed to "closed" (was "open")',
+      highlights: [{ path: '/status', before: '"open"', after: '"closed"' }],
+      tags: [],
+    });
+    expect(evaluate([{ path: 'status', when: 'changedTo', value: 'archived' }], oldState, newState).isWorthToReport).toBe(false);
+  });
+
+  it('should match object values regardless of their key order', () => {
+    const newState = { ...oldState, status: { code: 2, label: 'closed' } };
+    const rule: Rule = { path: 'status', when: 'changedTo', value: { label: 'closed', code: 2 } };
+    expect(evaluate([rule], oldState, newState).isWorthToReport).toBe(true);
+  });
+
+  it('should report arrays that grew or shrank', () => {
+    const grown = { ...oldState, items: [...oldState.items, { id: 3, price: 10 }] };
+    expect(evaluate([{ path: 'items', when: 'grew' }], oldState, grown)).toEqual({
+      isWorthToReport: true,
+      reportedChanges: '- /items grew from 2 to 3 item(s)',
+      severity: 'info',
+      title: '/items grew from 2 to 3 item(s)',
+      highlights: [{ path: '/items', before: JSON.stringify(oldState.items), after: JSON.stringify(grown.items) }],
+      tags: [],
+    });
+    expect(evaluate([{ path: 'items', when: 'shrank' }], oldState, grown).isWorthToReport).toBe(false);
+  });
+
+  it('should report added and removed values', () => {
+    const newState = { status: 'open', items: [{ id: 1, price: 100 }], banner: 'Sale!' };
+    const result = evaluate(
+      [
+        { path: 'banner', when: 'added' },
+        { path: 'items[*]', when: 'removed' },
+      ],
+      oldState,
+      newState
+    );
+    expect(result.reportedChanges).toBe('- /banner added: "Sale!"\n- /items/1 removed (was {"id":2,"price":50})');
+  });
+
+  it('should highlight every match and rate it by the most severe matched rule', () => {
+    const newState = { status: 'closed', items: [{ id: 1, price: 100 }], banner: 'Sale!' };
+    const result = evaluate(
+      [
+        { path: 'banner', when: 'added', severity: 'minor' },
+        { path: 'items[*]', when: 'removed' },
+        { path: 'status', when: 'changedTo', value: 'closed', severity: 'critical' },
+      ],
+      oldState,
+      newState
+    );
+    expect(result.severity).toBe('critical');
+    expect(result.title).toBe('3 rule matches');
+    expect(result.highlights).toEqual([
+      { path: '/banner', before: undefined, after: '"Sale!"' },
+      { path: '/items/1', before: '{"id":2,"price":50}', after: undefined },
+      { path: '/status', before: '"open"', after: '"closed"' },
+    ]);
+  });
+
+  it('should match "changed" rules for changes below the path once per path', () => {
+    const newState = { ...oldState, items: [{ id: 1, price: 90, sale: true }, { id: 2, price: 50 }] };
+    const matches = findRuleMatches(
+      [{ path: 'items[*]', when: 'changed' }],
+      compareJson(oldState, newState) ?? [],
+      oldState,
+      newState
+    );
+    expect(matches).toHaveLength(1);
+    expect(matches[0]).toMatchObject({
+      path: '/items/0',
+      oldValue: { id: 1, price: 100 },
+      newValue: { id: 1, price: 90, sale: true },
+    });
+  });
+
+  it('should render custom message templates', () => {
+    const newState = { ...oldState, items: [{ id: 1, price: 80 }, { id: 2, price: 50 }] };
+    const result = evaluate(
+      [{ path: 'items[*].price', when: 'decreased', message: 'Price drop at {path}: {old} → {new}' }],
+      oldState,
+      newState
+    );
+    expect(result.reportedChanges).toBe('- Price drop at /items/0/price: 100 → 80');
+  });
+
+  it('should require a value for "changedTo" rules', () => {
+    expect(ruleSchema.safeParse({ path: 'status', when: 'changedTo' }).success).toBe(false);
+    expect(ruleSchema.safeParse({ path: 'status', when: 'changedTo', value: 'closed' }).success).toBe(true);
+  });
+});
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { isDeepEqual, parseJsonPointer, type DiffOperation } from './comparer.js';
+import { getValueAtPath, matchesPath, parsePathPattern, type PathPattern } from './pathMatcher.js';
+import { type ChangeSummaryResult } from './aiProcessor.js';
+import { maxSeverity, SEVERITY_LEVELS } from './severity.js';
+
+// Zod schema for a single significance rule of a watch
+export const ruleSchema = z
+  .object({
+    path: z.string().min(1), // Path pattern, e.g. "items[*].price"
+    when: z.enum(['changed', 'added', 'removed', 'increased', 'decreased', 'changedTo', 'grew', 'shrank']),
+    value: z.unknown().optional(), // Target value for "changedTo"
+    byPercent: z.number().positive().optional(), // Minimum relative change for "increased"/"decreased"
+    byAmount: z.number().positive().optional(), // Minimum absolute change for "increased"/"decreased"/"grew"/"shrank"
+    message: z.string().optional(), // Template with {path}, {old} and {new} placeholders
+    severity: z.enum(SEVERITY_LEVELS).optional(), // Severity of a match, "info" if not set
+  })
+  .refine((rule) => rule.when !== 'changedTo' || rule.value !== undefined, {
+    message: '"changedTo" rules need a "value"',
+  });
+
+export type Rule = z.infer<typeof ruleSchema>;
+
+/**
+ * How rules are combined with the AI:
+ * - "standalone": rules alone decide and describe what is reported, the AI is never called.
+ * - "prefilter": the AI is only asked when at least one rule matched.
+ */
+export type RulesMode = 'standalone' | 'prefilter';
+
+export interface RuleMatch {
+  rule: Rule;
+  path: string;
+  oldValue: unknown;
+  newValue: unknown;
+  description: string;
+}
+
+function formatValue(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value);
+}
+
+// Checks whether the change between two numbers clears the rule's thresholds
+function exceedsThresholds(rule: Rule, oldValue: number, newValue: number): boolean {
+  const delta = Math.abs(newValue - oldValue);
+  if (rule.byAmount !== undefined && delta <= rule.byAmount) return false;
+  if (rule.byPercent !== undefined) {
+    if (oldValue === 0) return true;
+    if ((delta / Math.abs(oldValue)) * 100 <= rule.byPercent) return false;
+  }
+  return true;
+}
+
+function formatPercent(oldValue: number, newValue: number): string {
+  if (oldValue === 0) return '';
+  const percent = ((newValue - oldValue) / Math.abs(oldValue)) * 100;
+  return ` (${percent > 0 ? '+' : ''}${percent.toFixed(1)}%)`;
+}
+
+// Returns the pointer of the ancestor at the given depth, e.g. ("/items/3/price", 2) -> "/items/3"
+function pointerPrefix(pointer: string, depth: number): string {
+  return pointer.split('/').slice(0, depth + 1).join('/');
+}
+
+function describe(rule: Rule, path: string, oldValue: unknown, newValue: unknown): string {
+  if (rule.message) {
+    return rule.message
+      .replace(/\{path\}/g, path || '/')
+      .replace(/\{old\}/g, formatValue(oldValue))
+      .replace(/\{new\}/g, formatValue(newValue));
+  }
+  const displayPath = path || '/';
+  switch (rule.when) {
+    case 'added':
+      return `${displayPath} added: ${formatValue(newValue)}`;
+    case 'removed':
+      return `${displayPath} removed (was ${formatValue(oldValue)})`;
+    case 'increased':
+    case 'decreased':
+      return `${displayPath} ${rule.when} from ${formatValue(oldValue)} to ${formatValue(newValue)}${formatPercent(oldValue as number, newValue as number)}`;
+    case 'changedTo':
+      return `${displayPath} changed to ${formatValue(newValue)} (was ${formatValue(oldValue)})`;
+    case 'grew':
+    case 'shrank':
+      return `${displayPath} ${rule.when} from ${(oldValue as unknown[]).length} to ${(newValue as unknown[]).length} item(s)`;
+    default:
+      return `${displayPath} changed: ${formatValue(oldValue)} -> ${formatValue(newValue)}`;
+  }
+}
+
+function matchesOperation(rule: Rule, change: DiffOperation): boolean {
+  switch (rule.when) {
+    case 'added':
+      return change.op === 'added';
+    case 'removed':
+      return change.op === 'removed';
+    case 'increased':
+    case 'decreased': {
+      if (change.op !== 'changed') return false;
+      if (typeof change.oldValue !== 'number' || typeof change.newValue !== 'number') return false;
+      const direction = rule.when === 'increased' ? change.newValue > change.oldValue : change.newValue < change.oldValue;
+      return direction && exceedsThresholds(rule, change.oldValue, change.newValue);
+    }
+    case 'changedTo':
+      return (change.op === 'changed' || change.op === 'added') && isDeepEqual(change.newValue, rule.value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Finds every rule that is satisfied by the detected changes.
+ * Leaf conditions ("added", "removed", "increased", "decreased", "changedTo") are checked against the
+ * operations at the matching path. "changed" also matches operations below the path, and "grew"/"shrank"
+ * compare the array length at the matching path in both states.
+ * @param rules The rules of the watch.
+ * @param changes The diff operations between the two states.
+ * @param oldState The previous state (as it was compared).
+ * @param newState The current state (as it was compared).
+ * @returns The matches, at most one per rule and path.
+ */
+export function findRuleMatches(
+  rules: Rule[],
+  changes: DiffOperation[],
+  oldState: unknown,
+  newState: unknown
+): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  const seen = new Set<string>();
+  const addMatch = (rule: Rule, index: number, path: string, oldValue: unknown, newValue: unknown) => {
+    const key = `${index}:${path}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    matches.push({ rule, path, oldValue, newValue, description: describe(rule, path, oldValue, newValue) });
+  };
+
+  rules.forEach((rule, index) => {
+    const pattern: PathPattern = parsePathPattern(rule.path);
+
+    for (const change of changes) {
+      const segments = parseJsonPointer(change.path);
+
+      if (rule.when === 'changed') {
+        // Report at the level the rule addresses, e.g. "/items/3" for a change in "/items/3/price"
+        for (let depth = 0; depth <= segments.length; depth++) {
+          const ancestor = segments.slice(0, depth);
+          if (!matchesPath(pattern, ancestor)) continue;
+          if (depth === segments.length) {
+            addMatch(rule, index, change.path, change.oldValue, change.newValue);
+          } else {
+            const oldValue = getValueAtPath(oldState, ancestor);
+            const newValue = getValueAtPath(newState, ancestor);
+            addMatch(rule, index, pointerPrefix(change.path, depth), oldValue, newValue);
+          }
+          break;
+        }
+      } else if (rule.when === 'grew' || rule.when === 'shrank') {
+        for (let depth = 0; depth < segments.length; depth++) {
+          const ancestor = segments.slice(0, depth);
+          if (!matchesPath(pattern, ancestor)) continue;
+          const oldValue = getValueAtPath(oldState, ancestor);
+          const newValue = getValueAtPath(newState, ancestor);
+          if (!Array.isArray(oldValue) || !Array.isArray(newValue)) continue;
+          const grew = newValue.length > oldValue.length;
+          const shrank = newValue.length < oldValue.length;
+          if ((rule.when === 'grew' ? grew : shrank) && exceedsThresholds(rule, oldValue.length, newValue.length)) {
+            addMatch(rule, index, pointerPrefix(change.path, depth), oldValue, newValue);
+          }
+        }
+      } else if (matchesPath(pattern, segments) && matchesOperation(rule, change)) {
+        addMatch(rule, index, change.path, change.oldValue, change.newValue);
+      }
+    }
+  });
+  return matches;
+}
+
+/**
+ * Evaluates the rules deterministically, without an LLM.
+ * @returns The same shape as the AI summary: worth reporting if any rule matched,
+ * with one line per match as the summary, one highlight per match and the highest
+ * severity of the matched rules.
+ */
+export function evaluateRules(
+  rules: Rule[],
+  changes: DiffOperation[],
+  oldState: unknown,
+  newState: unknown
+): ChangeSummaryResult {
+  const matches = findRuleMatches(rules, changes, oldState, newState);
+  if (matches.length === 0) {
+    return {
+      isWorthToReport: false,
+      reportedChanges: 'No rule matched the detected changes.',
+      severity: 'info',
+      title: '',
+      highlights: [],
+      tags: [],
+    };
+  }
+  return {
+    isWorthToReport: true,
+    reportedChanges: matches.map((match) => `- ${match.description}`).join('\n'),
+    severity: maxSeverity(matches.map((match) => match.rule.severity ?? 'info')),
+    title: matches.length === 1 ? matches[0].description : `${matches.length} rule matches`,
+    highlights: matches.map((match) => ({
+      path: match.path,
+      before: match.oldValue === undefined ? undefined : JSON.stringify(match.oldValue),
+      after: match.newValue === undefined ? undefined : JSON.stringify(match.newValue),
+    })),
+    tags: [],
+  };
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { describeViolations, inferSchema, validateAgainstSchema } from './schema.js';
+
+describe('schema', () => {
+  describe('inferSchema', () => {
+    it('should infer types and required keys', () => {
+      expect(inferSchema({ name: 'feed', count: 2, active: true, note: null })).toEqual({
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          count: { type: 'number' },
+          active: { type: 'boolean' },
+          note: {},
+        },
+        required: ['name', 'count', 'active', 'note'],
+      });
+    });
+
+    it('should merge the items of an array', () => {
+      expect(inferSchema([{ id: 1, tag: 'a' }, { id: 2 }])).toEqual({
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: { id: { type: 'number' }, tag: { type: 'string' } },
+          required: ['id'],
+        },
+      });
+      expect(inferSchema([1, 'two'])).toEqual({ type: 'array', items: { type: ['number', 'string'] } });
+      expect(inferSchema([])).toEqual({ type: 'array' });
+    });
+
+    it('should accept the sample it was inferred from and documents with extra keys', () => {
+      const sample = { items: [{ id: 1, price: 9.5 }], meta: { page: 1 } };
+      const schema = inferSchema(sample);
+
+      expect(validateAgainstSchema(schema, sample)).toEqual([]);
+      expect(validateAgainstSchema(schema, { ...sample, generatedAt: 'now' })).toEqual([]);
+    });
+  });
+
+  describe('validateAgainstSchema', () => {
+    const schema = inferSchema({ items: [{ id: 1, price: 9.5 }], meta: { page: 1 } });
+
+    it('should report renamed fields at the missing path', () => {
+      expect(validateAgainstSchema(schema, { items: [{ id: 1, cost: 9.5 }], meta: { page: 1 } })).toEqual([
+        { path: '/items/0/price', message: 'is missing' },
+      ]);
+    });
+
+    it('should report an object where an array was', () => {
+      expect(validateAgainstSchema(schema, { items: { id: 1 }, meta: { page: 1 } })).toEqual([
+        { path: '/items', message: 'must be array' },
+      ]);
+    });
+
+    it('should report a wrong document type at the root', () => {
+      expect(validateAgainstSchema(schema, [])).toEqual([{ path: '', message: 'must be object' }]);
+    });
+
+    it('should escape keys in the reported paths', () => {
+      expect(validateAgainstSchema({ type: 'object', required: ['a/b'] }, {})).toEqual([{ path: '/a~1b', message: 'is missing' }]);
+    });
+
+    it('should throw on an invalid schema', () => {
+      expect(() => validateAgainstSchema({ type: 'bogus' }, {})).toThrow();
+    });
+  });
+
+  describe('describeViolations', () => {
+    it('should list the violations and cut off long lists', () => {
+      const violations = [
+        { path: '', message: 'must be object' },
+        { path: '/items', message: 'must be array' },
+        { path: '/meta', message: 'is missing' },
+      ];
+
+      expect(describeViolations(violations, 2)).toBe(
+        '• (root): must be object\n• /items: must be array\n…and 1 more violation(s).'
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Ajv, type ErrorObject, type ValidateFunction } from 'ajv';
+
+/**
+ * A JSON Schema document (draft-07).
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * A place where a response does not match the schema of its watch.
+ */
+export interface SchemaViolation {
+  path: string; // JSON Pointer of the offending value, "" for the document itself
+  message: string;
+}
+
+// Unknown keywords (e.g. "example") are common in hand-written schemas and must not fail the watch
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+// Compiled validators by schema, so a schema is compiled once and not on every check
+const compiledSchemas = new Map<string, ValidateFunction>();
+
+/**
+ * Compiles a JSON Schema.
+ * @throws If the document is not a valid schema.
+ */
+export function compileSchema(schema: JsonSchema): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validate = compiledSchemas.get(key);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    compiledSchemas.set(key, validate);
+  }
+  return validate;
+}
+
+/**
+ * Infers a schema from a sample document: the type of every value, the keys every object must
+ * have and the shape of array items. Extra keys stay allowed, since new fields are reported as
+ * changes anyway. Nulls accept any value, as the sample does not tell what they will hold.
+ */
+export function inferSchema(value: unknown): JsonSchema {
+  if (value === null || value === undefined) return {};
+  if (Array.isArray(value)) {
+    if (value.length === 0) return { type: 'array' };
+    return { type: 'array', items: value.map(inferSchema).reduce(mergeSchemas) };
+  }
+  if (typeof value === 'object') {
+    const properties = Object.fromEntries(Object.entries(value).map(([key, item]) => [key, inferSchema(item)]));
+    return { type: 'object', properties, required: Object.keys(value) };
+  }
+  return { type: typeof value };
+}
+
+// Combines the schemas of two array items into one that accepts both
+function mergeSchemas(a: JsonSchema, b: JsonSchema): JsonSchema {
+  if (a.type === undefined || b.type === undefined) return {};
+  if (a.type !== b.type) {
+    const types = new Set([a.type, b.type].flat() as string[]);
+    return { type: [...types].sort() };
+  }
+  if (a.type === 'object') {
+    const aProperties = a.properties as Record<string, JsonSchema>;
+    const bProperties = b.properties as Record<string, JsonSchema>;
+    const properties: Record<string, JsonSchema> = { ...aProperties, ...bProperties };
+    for (const key of Object.keys(aProperties)) {
+      if (key in bProperties) properties[key] = mergeSchemas(aProperties[key], bProperties[key]);
+    }
+    // Only keys present in every item are required
+    const required = (a.required as string[]).filter((key) => (b.required as string[]).includes(key));
+    return { type: 'object', properties, required };
+  }
+  if (a.type === 'array') {
+    if (!a.items) return b;
+    if (!b.items) return a;
+    return { type: 'array', items: mergeSchemas(a.items as JsonSchema, b.items as JsonSchema) };
+  }
+  return a;
+}
+
+// Escapes a key for use in a JSON Pointer (RFC 6901)
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function toViolation(error: ErrorObject): SchemaViolation {
+  // Point at the missing or unexpected key rather than at the object holding it
+  if (error.keyword === 'required') {
+    return { path: `${error.instancePath}/${escapePointer(error.params.missingProperty)}`, message: 'is missing' };
+  }
+  if (error.keyword === 'additionalProperties') {
+    return { path: `${error.instancePath}/${escapePointer(error.params.additionalProperty)}`, message: 'is not allowed' };
+  }
+  return { path: error.instancePath, message: error.message ?? `fails "${error.keyword}"` };
+}
+
+/**
+ * Validates a document against a schema.
+ * @returns Every failing path, or an empty array if the document matches.
+ */
+export function validateAgainstSchema(schema: JsonSchema, value: unknown): SchemaViolation[] {
+  const validate = compileSchema(schema);
+  if (validate(value)) return [];
+  const violations = new Map<string, SchemaViolation>();
+  for (const violation of (validate.errors ?? []).map(toViolation)) {
+    violations.set(`${violation.path}\n${violation.message}`, violation);
+  }
+  return [...violations.values()];
+}
+
+/**
+ * Lists violations as plain text, one per line.
+ * @param maxViolations Violations beyond this are summarized in a last line.
+ */
+export function describeViolations(violations: SchemaViolation[], maxViolations = 20): string {
+  const lines = violations
+    .slice(0, maxViolations)
+    .map((violation) => `• ${violation.path || '(root)'}: ${violation.message}`);
+  if (violations.length > maxViolations) lines.push(`…and ${violations.length - maxViolations} more violation(s).`);
+  return lines.join('\n');
+}
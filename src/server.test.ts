@@ -0,0 +1,145 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import { type AddressInfo } from 'net';
+import { startStatusServer } from './server.js';
+import { type WatchConfig } from './config.js';
+import { checkJsonUpdates, getWatchStatus } from './monitor.js';
+import { listSnapshots } from './storage.js';
+import { checksTotal } from './metrics.js';
+
+vi.mock('./config.js', () => ({
+  config: {},
+}));
+
+vi.mock('./monitor.js', () => ({
+  checkJsonUpdates: vi.fn(),
+  getWatchStatus: vi.fn(),
+}));
+
+vi.mock('./storage.js', () => ({
+  listSnapshots: vi.fn(),
+}));
+
+const watch = {
+  id: 'prices',
+  url: 'https://example.com/prices.json',
+  cron: '*/5 * * * *',
+  stateFilePath: '/tmp/prices.json',
+} as WatchConfig;
+
+describe('startStatusServer', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const start = async (apiToken?: string) => {
+    server = await startStatusServer([watch], { dryRun: false }, { port: 0, host: '127.0.0.1', apiToken });
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.mocked(getWatchStatus).mockReturnValue({ running: false });
+    vi.mocked(checkJsonUpdates).mockResolvedValue(true);
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  it('should answer liveness probes', async () => {
+    await start();
+    const res = await fetch(`${baseUrl}/healthz`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ status: 'ok' });
+  });
+
+  it('should list the watches with their status', async () => {
+    vi.mocked(getWatchStatus).mockReturnValue({
+      running: false,
+      lastRunAt: '2025-01-01T00:00:00.000Z',
+      lastRunOk: false,
+      lastError: { at: '2025-01-01T00:00:01.000Z', message: 'HTTP 502' },
+    });
+    await start();
+
+    const res = await fetch(`${baseUrl}/watches`);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual([
+      {
+        id: 'prices',
+        url: 'https://example.com/prices.json',
+        cron: '*/5 * * * *',
+        running: false,
+        lastRunAt: '2025-01-01T00:00:00.000Z',
+        lastRunOk: false,
+        nextRunAt: null,
+        consecutiveFailures: 0,
+        down: false,
+        downSince: null,
+        lastError: { at: '2025-01-01T00:00:01.000Z', message: 'HTTP 502' },
+        lastChange: null,
+      },
+    ]);
+  });
+
+  it('should start a check on request', async () => {
+    await start();
+    const res = await fetch(`${baseUrl}/watches/prices/check`, { method: 'POST' });
+
+    expect(res.status).toBe(202);
+    expect(checkJsonUpdates).toHaveBeenCalledWith(watch, { dryRun: false });
+  });
+
+  it('should not start a second check while one is running', async () => {
+    vi.mocked(getWatchStatus).mockReturnValue({ running: true });
+    await start();
+    const res = await fetch(`${baseUrl}/watches/prices/check`, { method: 'POST' });
+
+    expect(res.status).toBe(409);
+    expect(checkJsonUpdates).not.toHaveBeenCalled();
+  });
+
+  it('should list the snapshots of a watch', async () => {
+    const snapshot = { id: 's1', takenAt: '2025-01-01T00:00:00.000Z', hash: 'abc', compressed: false, size: 2 };
+    vi.mocked(listSnapshots).mockResolvedValue([snapshot]);
+    await start();
+
+    const res = await fetch(`${baseUrl}/watches/prices/snapshots`);
+    expect(await res.json()).toEqual([snapshot]);
+    expect(listSnapshots).toHaveBeenCalledWith('/tmp/prices.json');
+  });
+
+  it('should serve Prometheus metrics', async () => {
+    checksTotal.inc({ watch: 'prices', result: 'success' });
+    await start();
+
+    const res = await fetch(`${baseUrl}/metrics`);
+    expect(res.headers.get('content-type')).toContain('text/plain');
+    expect(await res.text()).toContain('json_notify_checks_total{watch="prices",result="success"} 1');
+  });
+
+  it('should answer 404 for unknown watches and routes', async () => {
+    await start();
+    expect((await fetch(`${baseUrl}/watches/missing/snapshots`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/watches/prices/check`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/nothing`)).status).toBe(404);
+  });
+
+  it('should answer 400 for malformed percent-encoding in the path', async () => {
+    await start();
+    const res = await fetch(`${baseUrl}/watches/%E0/check`, { method: 'POST' });
+    expect(res.status).toBe(400);
+    expect(await res.json()).toEqual({ error: 'Malformed path segment "%E0"' });
+  });
+
+  it('should require the API token everywhere but /healthz', async () => {
+    await start('secret');
+
+    expect((await fetch(`${baseUrl}/healthz`)).status).toBe(200);
+    expect((await fetch(`${baseUrl}/watches`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/watches`, { headers: { Authorization: 'Bearer wrong' } })).status).toBe(401);
+    expect((await fetch(`${baseUrl}/watches`, { headers: { Authorization: 'Bearer secret' } })).status).toBe(200);
+  });
+});
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import http from 'http';
+import schedule from 'node-schedule';
+import { type WatchConfig } from './config.js';
+import { getHealth } from './health.js';
+import { logger } from './logger.js';
+import { metricsRegistry } from './metrics.js';
+import { checkJsonUpdates, getWatchStatus, type CheckOptions } from './monitor.js';
+import { listSnapshots } from './storage.js';
+
+export interface StatusServerOptions {
+  port: number; // 0 picks a free port
+  host: string;
+  apiToken?: string; // Required as Bearer token by everything but /healthz, if set
+}
+
+// Thrown by route handlers to answer with a status code other than 500
+function httpError(statusCode: number, message: string): Error & { statusCode: number } {
+  return Object.assign(new Error(message), { statusCode });
+}
+
+// Decodes a path segment; malformed percent-encoding is the client's mistake, not a server error
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw httpError(400, `Malformed path segment "${segment}"`);
+  }
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json; charset=utf-8' });
+  res.end(JSON.stringify(body, null, 2));
+}
+
+// Compares in constant time, so the token cannot be guessed character by character
+function isAuthorized(req: http.IncomingMessage, apiToken: string): boolean {
+  const expected = Buffer.from(`Bearer ${apiToken}`);
+  const given = Buffer.from(req.headers.authorization ?? '');
+  return given.length === expected.length && crypto.timingSafeEqual(given, expected);
+}
+
+/**
+ * Describes a watch for the /watches endpoint.
+ */
+function describeWatch(watch: WatchConfig) {
+  const { consecutiveFailures, down, downSince } = getHealth(watch.id);
+  const { running, lastRunAt, lastRunOk, lastError, lastChange } = getWatchStatus(watch.id);
+  return {
+    id: watch.id,
+    url: watch.url,
+    cron: watch.cron,
+    running,
+    lastRunAt: lastRunAt ?? null,
+    lastRunOk: lastRunOk ?? null,
+    nextRunAt: schedule.scheduledJobs[watch.id]?.nextInvocation()?.toISOString() ?? null,
+    consecutiveFailures,
+    down,
+    downSince: downSince ?? null,
+    lastError: lastError ?? null,
+    lastChange: lastChange ?? null,
+  };
+}
+
+/**
+ * Starts the HTTP status and control API:
+ * - `GET /healthz`: liveness, answers as long as the process does.
+ * - `GET /watches`: last run, next run, health, last error and last change of every watch.
+ * - `POST /watches/:id/check`: starts a check of the watch right away.
+ * - `GET /watches/:id/snapshots`: the stored snapshots of the watch, oldest first.
+ * - `GET /metrics`: Prometheus metrics of checks, changes, AI usage and delivery.
+ * @param watches The watches the API exposes.
+ * @param checkOptions Options of the checks it starts, as used by the scheduler.
+ * @param options Where to listen, and the API token.
+ * @returns The listening server.
+ */
+export async function startStatusServer(
+  watches: WatchConfig[],
+  checkOptions: CheckOptions,
+  options: StatusServerOptions
+): Promise<http.Server> {
+  const startedAt = Date.now();
+
+  const findWatch = (id: string) => {
+    const watch = watches.find((candidate) => candidate.id === id);
+    if (!watch) throw httpError(404, `Unknown watch "${id}"`);
+    return watch;
+  };
+
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const segments = pathname.split('/').filter(Boolean).map(decodeSegment);
+    const route = `${req.method} /${segments.map((segment, index) => (index === 1 ? ':id' : segment)).join('/')}`;
+
+    if (route === 'GET /healthz') {
+      sendJson(res, 200, { status: 'ok', uptimeSeconds: Math.round((Date.now() - startedAt) / 1000) });
+      return;
+    }
+    if (options.apiToken && !isAuthorized(req, options.apiToken)) {
+      throw httpError(401, 'Missing or invalid API token');
+    }
+
+    switch (route) {
+      case 'GET /metrics':
+        res.writeHead(200, { 'Content-Type': metricsRegistry.contentType });
+        res.end(await metricsRegistry.metrics());
+        return;
+      case 'GET /watches':
+        sendJson(res, 200, watches.map(describeWatch));
+        return;
+      case 'POST /watches/:id/check': {
+        const watch = findWatch(segments[1]);
+        if (getWatchStatus(watch.id).running) throw httpError(409, `A check of "${watch.id}" is already running`);
+        logger.info(`Check of "${watch.id}" requested through the HTTP API.`);
+        void checkJsonUpdates(watch, checkOptions); // Reports its own errors; progress shows in /watches
+        sendJson(res, 202, { id: watch.id, status: 'started' });
+        return;
+      }
+      case 'GET /watches/:id/snapshots': {
+        const watch = findWatch(segments[1]);
+        sendJson(res, 200, await listSnapshots(watch.stateFilePath));
+        return;
+      }
+      default:
+        throw httpError(404, `No route for ${req.method} ${pathname}`);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      const statusCode = error.statusCode ?? 500;
+      if (statusCode === 500) logger.error(`HTTP API error on ${req.method} ${req.url}.`, { error });
+      sendJson(res, statusCode, { error: error.message });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, options.host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+  const address = server.address();
+  logger.info(`HTTP API listening on ${typeof address === 'object' && address ? `${address.address}:${address.port}` : address}`);
+  return server;
+}
@@ -0,0 +1,18 @@
+// Severity levels of a change, from least to most severe
+export const SEVERITY_LEVELS = ['info', 'minor', 'major', 'critical'] as const;
+
+export type Severity = (typeof SEVERITY_LEVELS)[number];
+
+/**
+ * Returns true if `severity` is `min` or more severe.
+ */
+export function meetsSeverity(severity: Severity, min: Severity): boolean {
+  return SEVERITY_LEVELS.indexOf(severity) >= SEVERITY_LEVELS.indexOf(min);
+}
+
+/**
+ * Returns the most severe of the given levels, or `info` if there are none.
+ */
+export function maxSeverity(severities: Severity[]): Severity {
+  return severities.reduce<Severity>((max, severity) => (meetsSeverity(severity, max) ? severity : max), 'info');
+}
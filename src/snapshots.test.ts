@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import {
+  getSnapshotDirPath,
+  hashState,
+  listSnapshots,
+  loadLatestSnapshot,
+  loadSnapshot,
+  pruneSnapshots,
+  saveSnapshot,
+  type RetentionOptions,
+} from './snapshots.js';
+
+vi.mock('./config.js', () => ({
+  config: { snapshots: { maxCount: 100, maxAgeDays: 0, compress: false } },
+}));
+
+describe('snapshots', () => {
+  let dir: string;
+  let stateFilePath: string;
+  const options: RetentionOptions = { maxCount: 100, maxAgeDays: 0, compress: false };
+
+  // Saves a state as if it was taken at the given time
+  const saveAt = async (time: string, state: unknown, retention = options) => {
+    vi.setSystemTime(new Date(time));
+    return saveSnapshot(stateFilePath, state, retention);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-notify-snapshots-'));
+    stateFilePath = path.join(dir, 'prices.json');
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should derive the snapshot directory from the state file path', () => {
+    expect(getSnapshotDirPath('/data/feed.json')).toBe('/data/feed.snapshots');
+  });
+
+  it('should hash states independently of key order', () => {
+    expect(hashState({ a: 1, b: 2 })).toBe(hashState({ b: 2, a: 1 }));
+    expect(hashState({ a: 1 })).not.toBe(hashState({ a: 2 }));
+  });
+
+  it('should store timestamped snapshots and list them oldest first', async () => {
+    const first = await saveAt('2025-01-01T10:00:00.000Z', { price: 1 });
+    await saveAt('2025-01-02T10:00:00.000Z', { price: 2 });
+
+    expect(first).toMatchObject({
+      id: `2025-01-01T10-00-00-000Z-${hashState({ price: 1 })}`,
+      takenAt: '2025-01-01T10:00:00.000Z',
+      compressed: false,
+    });
+    const snapshots = await listSnapshots(stateFilePath);
+    expect(snapshots.map((snapshot) => snapshot.takenAt)).toEqual(['2025-01-01T10:00:00.000Z', '2025-01-02T10:00:00.000Z']);
+    expect(snapshots[0]).toEqual({ ...first, size: expect.any(Number) });
+  });
+
+  it('should load any snapshot by id and the latest one', async () => {
+    const first = await saveAt('2025-01-01T10:00:00.000Z', { price: 1 });
+    await saveAt('2025-01-02T10:00:00.000Z', { price: 2 });
+
+    expect(await loadSnapshot(stateFilePath, first.id)).toEqual({ price: 1 });
+    expect(await loadLatestSnapshot(stateFilePath)).toEqual({ price: 2 });
+    await expect(loadSnapshot(stateFilePath, 'missing')).rejects.toThrow('Snapshot missing not found');
+  });
+
+  it('should return no snapshots before the first one is stored', async () => {
+    expect(await listSnapshots(stateFilePath)).toEqual([]);
+    expect(await loadLatestSnapshot(stateFilePath)).toBeNull();
+  });
+
+  it('should not store a state equal to the latest snapshot again', async () => {
+    const first = await saveAt('2025-01-01T10:00:00.000Z', { a: 1, b: 2 });
+    const second = await saveAt('2025-01-02T10:00:00.000Z', { b: 2, a: 1 });
+
+    expect(second).toEqual(first);
+    expect(await listSnapshots(stateFilePath)).toHaveLength(1);
+  });
+
+  it('should gzip snapshots when compression is enabled', async () => {
+    const snapshot = await saveAt('2025-01-01T10:00:00.000Z', { price: 1 }, { ...options, compress: true });
+
+    const filePath = path.join(getSnapshotDirPath(stateFilePath), `${snapshot.id}.json.gz`);
+    expect(JSON.parse(zlib.gunzipSync(fs.readFileSync(filePath)).toString())).toEqual({ price: 1 });
+    expect(await loadLatestSnapshot(stateFilePath)).toEqual({ price: 1 });
+  });
+
+  it('should keep at most maxCount snapshots', async () => {
+    const retention = { ...options, maxCount: 2 };
+    await saveAt('2025-01-01T10:00:00.000Z', { price: 1 }, retention);
+    await saveAt('2025-01-02T10:00:00.000Z', { price: 2 }, retention);
+    await saveAt('2025-01-03T10:00:00.000Z', { price: 3 }, retention);
+
+    const snapshots = await listSnapshots(stateFilePath);
+    expect(snapshots.map((snapshot) => snapshot.takenAt)).toEqual(['2025-01-02T10:00:00.000Z', '2025-01-03T10:00:00.000Z']);
+  });
+
+  it('should remove snapshots older than maxAgeDays but keep the latest', async () => {
+    await saveAt('2025-01-01T10:00:00.000Z', { price: 1 });
+    await saveAt('2025-01-02T10:00:00.000Z', { price: 2 });
+
+    const removed = await pruneSnapshots(stateFilePath, { maxCount: 0, maxAgeDays: 7 }, Date.parse('2025-02-01T00:00:00.000Z'));
+
+    expect(removed).toEqual([`2025-01-01T10-00-00-000Z-${hashState({ price: 1 })}`]);
+    expect(await loadLatestSnapshot(stateFilePath)).toEqual({ price: 2 });
+  });
+
+  it('should quarantine a corrupt latest snapshot and fall back to the previous one', async () => {
+    await saveAt('2025-01-01T10:00:00.000Z', { price: 1 });
+    const latest = await saveAt('2025-01-02T10:00:00.000Z', { price: 2 });
+    const snapshotDir = getSnapshotDirPath(stateFilePath);
+    fs.writeFileSync(path.join(snapshotDir, `${latest.id}.json`), '{"price": 2');
+    const onRecovery = vi.fn();
+
+    expect(await loadLatestSnapshot(stateFilePath, onRecovery)).toEqual({ price: 1 });
+    expect(onRecovery).toHaveBeenCalledWith(expect.stringContaining(`Snapshot ${latest.id} was corrupt`));
+    expect(await listSnapshots(stateFilePath)).toHaveLength(1);
+    expect(fs.readdirSync(snapshotDir).some((file) => file.endsWith('.corrupt'))).toBe(true);
+  });
+
+  it('should ignore foreign files in the snapshot directory', async () => {
+    await saveAt('2025-01-01T10:00:00.000Z', { price: 1 });
+    fs.writeFileSync(path.join(getSnapshotDirPath(stateFilePath), 'notes.txt'), 'hello');
+
+    expect(await listSnapshots(stateFilePath)).toHaveLength(1);
+  });
+});
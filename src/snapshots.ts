@@ -0,0 +1,210 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import zlib from 'zlib';
+import stringify from 'fast-json-stable-stringify';
+import { quarantineFile, writeFileAtomic } from './atomicFile.js';
+import { config } from './config.js';
+import { logger } from './logger.js';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/**
+ * A stored version of a watch's state. The id sorts chronologically.
+ */
+export interface SnapshotInfo {
+  id: string; // e.g. 2025-01-01T12-00-00-000Z-3f2a9c0d1b7e
+  takenAt: string; // ISO 8601
+  hash: string; // Start of the SHA-256 of the state's canonical JSON
+  compressed: boolean;
+  size: number; // Bytes on disk
+}
+
+export interface RetentionOptions {
+  maxCount: number; // Snapshots kept per watch, 0 for no limit
+  maxAgeDays: number; // Snapshots older than this are removed, 0 for no limit
+  compress: boolean; // Store new snapshots gzipped
+}
+
+// <takenAt with ":" and "." replaced by "-">-<hash>.json[.gz]
+const SNAPSHOT_FILE_PATTERN = /^(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)-([0-9a-f]{12})\.json(\.gz)?$/;
+
+/**
+ * Returns the directory holding the snapshots of a watch.
+ * @param stateFilePath The state file of the watch.
+ */
+export function getSnapshotDirPath(stateFilePath: string): string {
+  return `${stateFilePath.replace(/\.json$/i, '')}.snapshots`;
+}
+
+/**
+ * Hashes a state independently of its key order, so equal states are recognized as such.
+ */
+export function hashState(state: unknown): string {
+  return crypto.createHash('sha256').update(stringify(state)).digest('hex').substring(0, 12);
+}
+
+/**
+ * Builds the id of a snapshot from the time it was taken and the hash of its state.
+ */
+export function getSnapshotId(takenAt: string, hash: string): string {
+  return `${takenAt.replace(/[:.]/g, '-')}-${hash}`;
+}
+
+function getFileName(snapshot: Pick<SnapshotInfo, 'id' | 'compressed'>): string {
+  return `${snapshot.id}.json${snapshot.compressed ? '.gz' : ''}`;
+}
+
+/**
+ * Lists the snapshots of a watch.
+ * @param stateFilePath The state file of the watch.
+ * @returns The snapshots, oldest first. Empty if none were stored.
+ */
+export async function listSnapshots(stateFilePath: string): Promise<SnapshotInfo[]> {
+  const dir = getSnapshotDirPath(stateFilePath);
+  let fileNames: string[];
+  try {
+    fileNames = await fs.readdir(dir);
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const snapshots: SnapshotInfo[] = [];
+  for (const fileName of fileNames.sort()) {
+    const match = SNAPSHOT_FILE_PATTERN.exec(fileName);
+    if (!match) continue; // Temporary or foreign files
+    const [, time, hash, gz] = match;
+    const { size } = await fs.stat(path.join(dir, fileName));
+    snapshots.push({
+      id: `${time}-${hash}`,
+      takenAt: time.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/, 'T$1:$2:$3.$4Z'),
+      hash,
+      compressed: Boolean(gz),
+      size,
+    });
+  }
+  return snapshots;
+}
+
+async function readSnapshot<T>(stateFilePath: string, snapshot: SnapshotInfo): Promise<T> {
+  const data = await fs.readFile(path.join(getSnapshotDirPath(stateFilePath), getFileName(snapshot)));
+  const json = snapshot.compressed ? await gunzip(data) : data;
+  return JSON.parse(json.toString('utf-8')) as T;
+}
+
+/**
+ * Loads a snapshot by id.
+ * @param stateFilePath The state file of the watch.
+ * @param id The id of the snapshot, as returned by listSnapshots.
+ * @throws If there is no snapshot with that id.
+ */
+export async function loadSnapshot<T>(stateFilePath: string, id: string): Promise<T> {
+  const snapshot = (await listSnapshots(stateFilePath)).find((candidate) => candidate.id === id);
+  if (!snapshot) {
+    throw new Error(`Snapshot ${id} not found in ${getSnapshotDirPath(stateFilePath)}`);
+  }
+  return readSnapshot<T>(stateFilePath, snapshot);
+}
+
+// Truncated JSON or gzip data, as left behind by a crash mid-write
+function isCorrupt(error: any): boolean {
+  return error instanceof SyntaxError || (typeof error?.code === 'string' && error.code.startsWith('Z_'));
+}
+
+/**
+ * Loads the most recent snapshot of a watch. A corrupt snapshot is quarantined and the one
+ * before it is loaded instead.
+ * @param onRecovery Called for every corrupt snapshot that was skipped.
+ * @returns The state, or null if no (readable) snapshot was stored yet.
+ */
+export async function loadLatestSnapshot<T>(
+  stateFilePath: string,
+  onRecovery: (message: string) => void = () => {}
+): Promise<T | null> {
+  const snapshots = await listSnapshots(stateFilePath);
+  for (const snapshot of snapshots.reverse()) {
+    try {
+      return await readSnapshot<T>(stateFilePath, snapshot);
+    } catch (error) {
+      if (!isCorrupt(error)) throw error;
+      const corruptPath = await quarantineFile(path.join(getSnapshotDirPath(stateFilePath), getFileName(snapshot)));
+      onRecovery(`Snapshot ${snapshot.id} was corrupt (moved to ${corruptPath}) and was skipped.`);
+    }
+  }
+  return null;
+}
+
+/**
+ * Stores a state as a new snapshot and applies the retention policy. A state equal to the latest
+ * snapshot is not stored twice.
+ * @param stateFilePath The state file of the watch.
+ * @param state The state to store.
+ * @param options Retention and compression. Defaults to the SNAPSHOT_* settings.
+ * @returns The new snapshot, or the latest one if it already holds this state.
+ */
+export async function saveSnapshot(
+  stateFilePath: string,
+  state: unknown,
+  options: RetentionOptions = config.snapshots
+): Promise<SnapshotInfo> {
+  const hash = hashState(state);
+  const latest = (await listSnapshots(stateFilePath)).at(-1);
+  if (latest?.hash === hash) return latest;
+
+  const takenAt = new Date().toISOString();
+  const id = getSnapshotId(takenAt, hash);
+  const json = Buffer.from(JSON.stringify(state, null, 2), 'utf-8');
+  const data = options.compress ? await gzip(json) : json;
+
+  const dir = getSnapshotDirPath(stateFilePath);
+  await fs.mkdir(dir, { recursive: true });
+  await writeFileAtomic(path.join(dir, getFileName({ id, compressed: options.compress })), data);
+
+  await pruneSnapshots(stateFilePath, options);
+  return { id, takenAt, hash, compressed: options.compress, size: data.length };
+}
+
+/**
+ * Picks the snapshots exceeding the retention policy. The latest snapshot is always kept.
+ * @param snapshots The snapshots of a watch, oldest first.
+ * @param options The retention limits.
+ * @param now The current time.
+ * @returns The snapshots to remove.
+ */
+export function selectExpiredSnapshots(
+  snapshots: SnapshotInfo[],
+  options: Pick<RetentionOptions, 'maxCount' | 'maxAgeDays'>,
+  now: number
+): SnapshotInfo[] {
+  const candidates = snapshots.slice(0, -1).reverse(); // Newest first, without the latest
+  const maxAgeMs = options.maxAgeDays * 24 * 60 * 60 * 1000;
+  return candidates.filter(
+    (snapshot, index) =>
+      (options.maxCount > 0 && index + 1 >= options.maxCount) ||
+      (maxAgeMs > 0 && now - Date.parse(snapshot.takenAt) > maxAgeMs)
+  );
+}
+
+/**
+ * Removes the snapshots exceeding the retention policy. The latest snapshot is always kept.
+ * @param stateFilePath The state file of the watch.
+ * @param options The retention limits.
+ * @param now The current time, for tests.
+ * @returns The ids of the removed snapshots.
+ */
+export async function pruneSnapshots(
+  stateFilePath: string,
+  options: Pick<RetentionOptions, 'maxCount' | 'maxAgeDays'> = config.snapshots,
+  now = Date.now()
+): Promise<string[]> {
+  const expired = selectExpiredSnapshots(await listSnapshots(stateFilePath), options, now);
+  const dir = getSnapshotDirPath(stateFilePath);
+  for (const snapshot of expired) {
+    await fs.rm(path.join(dir, getFileName(snapshot)), { force: true });
+  }
+  if (expired.length > 0) logger.info(`Removed ${expired.length} snapshot(s) past retention from ${dir}`);
+  return expired.map((snapshot) => snapshot.id);
+}
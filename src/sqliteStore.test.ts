@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { createSqliteStore } from './sqliteStore.js';
+import { type Outbox } from './delivery.js';
+import { type StateStore } from './storage.js';
+
+vi.mock('./config.js', () => ({
+  config: { snapshots: { maxCount: 100, maxAgeDays: 0, compress: false } },
+}));
+
+describe('sqliteStore', () => {
+  let dir: string;
+  let dbPath: string;
+  let store: StateStore;
+  let stateFilePath: string;
+
+  // Reads the database through a second connection, as an ad-hoc query would
+  const query = (sql: string) => {
+    const db = new Database(dbPath, { readonly: true });
+    try {
+      return db.prepare(sql).all();
+    } finally {
+      db.close();
+    }
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'json-notify-sqlite-'));
+    dbPath = path.join(dir, 'data', 'state.db');
+    stateFilePath = path.join(dir, 'prices.json');
+    store = createSqliteStore(dbPath, { maxCount: 100, maxAgeDays: 0, compress: false });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    store.close();
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should store states as snapshots and return the latest', async () => {
+    expect(await store.readLastState(stateFilePath)).toBeNull();
+
+    await store.writeState(stateFilePath, { price: 1 });
+    await store.writeState(stateFilePath, { price: 2 });
+
+    expect(await store.readLastState(stateFilePath)).toEqual({ price: 2 });
+    const snapshots = await store.listSnapshots(stateFilePath);
+    expect(snapshots).toHaveLength(2);
+    expect(await store.loadSnapshot(stateFilePath, snapshots[0].id)).toEqual({ price: 1 });
+    await expect(store.loadSnapshot(stateFilePath, 'missing')).rejects.toThrow('Snapshot missing not found');
+  });
+
+  it('should keep watches apart', async () => {
+    await store.writeState(stateFilePath, { price: 1 });
+    expect(await store.readLastState(path.join(dir, 'other.json'))).toBeNull();
+  });
+
+  it('should not store an unchanged state twice but still record its changes', async () => {
+    const changes = [{ op: 'changed' as const, path: '/price', oldValue: 1, newValue: 2 }];
+    await store.writeState(stateFilePath, { price: 2 });
+    await store.writeState(stateFilePath, { price: 2 }, changes);
+
+    const snapshots = await store.listSnapshots(stateFilePath);
+    expect(snapshots).toHaveLength(1);
+    expect(query('SELECT snapshot_id, changes FROM change_events')).toEqual([
+      { snapshot_id: snapshots[0].id, changes: JSON.stringify(changes) },
+    ]);
+  });
+
+  it('should apply retention and compression', async () => {
+    store.close();
+    store = createSqliteStore(dbPath, { maxCount: 2, maxAgeDays: 0, compress: true });
+
+    for (const price of [1, 2, 3]) {
+      await store.writeState(stateFilePath, { price });
+    }
+
+    const snapshots = await store.listSnapshots(stateFilePath);
+    expect(snapshots.map((snapshot) => snapshot.compressed)).toEqual([true, true]);
+    expect(await store.loadSnapshot(stateFilePath, snapshots[0].id)).toEqual({ price: 2 });
+  });
+
+  it('should write validators with the state and remove them when there are none', async () => {
+    await store.writeState(stateFilePath, { price: 1 }, [], { etag: '"v1"' });
+    expect(await store.readValidators(stateFilePath)).toEqual({ etag: '"v1"', lastModified: undefined });
+
+    await store.writeState(stateFilePath, { price: 2 });
+    expect(await store.readValidators(stateFilePath)).toEqual({ etag: undefined, lastModified: undefined });
+  });
+
+  it('should keep schema records, outboxes and dead letters', async () => {
+    const outbox: Outbox = { pendingState: { price: 2 }, pendingChanges: [], entries: [] };
+
+    await store.writeSchemaRecord(stateFilePath, { violations: [{ path: '/items', message: 'must be array' }] });
+    await store.writeOutbox(stateFilePath, outbox);
+    await store.appendDeadLetters(stateFilePath, [
+      {
+        channel: 'slack',
+        event: { kind: 'change', watchId: 'prices', title: 't', summary: 's', timestamp: '2025-01-01T00:00:00.000Z' },
+        attempts: 3,
+        firstFailedAt: '2025-01-01T00:00:00.000Z',
+        lastError: 'down',
+        reason: 'Not delivered after 3 attempts',
+        deadLetteredAt: '2025-01-02T00:00:00.000Z',
+      },
+    ]);
+
+    expect(await store.readSchemaRecord(stateFilePath)).toEqual({ violations: [{ path: '/items', message: 'must be array' }] });
+    expect(await store.readOutbox(stateFilePath)).toEqual(outbox);
+    expect(query('SELECT channel, reason FROM dead_letters')).toEqual([
+      { channel: 'slack', reason: 'Not delivered after 3 attempts' },
+    ]);
+
+    await store.deleteOutbox(stateFilePath);
+    expect(await store.readOutbox(stateFilePath)).toBeNull();
+  });
+
+  it('should keep the health of failing watches', async () => {
+    await store.writeHealth(stateFilePath, { consecutiveFailures: 2, down: false, lastError: 'timeout' });
+    expect(await store.readHealth(stateFilePath)).toEqual({ consecutiveFailures: 2, down: false, lastError: 'timeout' });
+
+    await store.writeHealth(stateFilePath, null);
+    expect(await store.readHealth(stateFilePath)).toBeNull();
+  });
+
+  it('should log delivery attempts and AI results', async () => {
+    await store.recordDelivery({
+      watchId: 'prices',
+      channel: 'slack',
+      kind: 'change',
+      attempt: 1,
+      ok: false,
+      error: 'down',
+      attemptedAt: '2025-01-01T00:00:00.000Z',
+    });
+    await store.recordSummary({
+      watchId: 'prices',
+      changeCount: 2,
+      isWorthToReport: true,
+      reportedChanges: 'Price went up.',
+      createdAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    expect(query('SELECT watch_id, channel, ok, error FROM delivery_attempts')).toEqual([
+      { watch_id: 'prices', channel: 'slack', ok: 0, error: 'down' },
+    ]);
+    expect(query('SELECT watch_id, change_count, is_worth_to_report FROM ai_results')).toEqual([
+      { watch_id: 'prices', change_count: 2, is_worth_to_report: 1 },
+    ]);
+  });
+
+  it('should pick up the state stored in files before switching to SQLite', async () => {
+    fs.writeFileSync(stateFilePath, JSON.stringify({ price: 1 }));
+    expect(await store.readLastState(stateFilePath)).toEqual({ price: 1 });
+  });
+});
@@ -0,0 +1,311 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import Database from 'better-sqlite3';
+import { config } from './config.js';
+import { type DiffOperation } from './comparer.js';
+import { type DeadLetterEntry, type Outbox } from './delivery.js';
+import { createFileStore } from './fileStore.js';
+import { type WatchHealth } from './health.js';
+import { logger } from './logger.js';
+import {
+  getSnapshotId,
+  hashState,
+  selectExpiredSnapshots,
+  type RetentionOptions,
+  type SnapshotInfo,
+} from './snapshots.js';
+import {
+  type DeliveryAttempt,
+  type HttpValidators,
+  type SchemaRecord,
+  type StateStore,
+  type SummaryRecord,
+} from './storage.js';
+
+// Every table is keyed by the state file path of the watch (`state_key`), except the delivery
+// log and the AI results, which are about watches as configured (`watch_id`).
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS snapshots (
+  state_key TEXT NOT NULL,
+  id TEXT NOT NULL,
+  taken_at TEXT NOT NULL,
+  hash TEXT NOT NULL,
+  compressed INTEGER NOT NULL,
+  data BLOB NOT NULL,
+  PRIMARY KEY (state_key, id)
+);
+CREATE TABLE IF NOT EXISTS change_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  state_key TEXT NOT NULL,
+  snapshot_id TEXT NOT NULL,
+  detected_at TEXT NOT NULL,
+  changes TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS change_events_state_key ON change_events (state_key, detected_at);
+CREATE TABLE IF NOT EXISTS validators (
+  state_key TEXT PRIMARY KEY,
+  etag TEXT,
+  last_modified TEXT
+);
+CREATE TABLE IF NOT EXISTS schema_records (
+  state_key TEXT PRIMARY KEY,
+  record TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS watch_health (
+  state_key TEXT PRIMARY KEY,
+  health TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS outboxes (
+  state_key TEXT PRIMARY KEY,
+  outbox TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS dead_letters (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  state_key TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  dead_lettered_at TEXT NOT NULL,
+  entry TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS ai_results (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  watch_id TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  change_count INTEGER NOT NULL,
+  is_worth_to_report INTEGER NOT NULL,
+  reported_changes TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS ai_results_watch_id ON ai_results (watch_id, created_at);
+CREATE TABLE IF NOT EXISTS delivery_attempts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  watch_id TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  attempt INTEGER NOT NULL,
+  ok INTEGER NOT NULL,
+  error TEXT,
+  attempted_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS delivery_attempts_watch_id ON delivery_attempts (watch_id, attempted_at);
+`;
+
+interface SnapshotRow {
+  id: string;
+  taken_at: string;
+  hash: string;
+  compressed: number;
+  size: number;
+}
+
+function toSnapshotInfo(row: SnapshotRow): SnapshotInfo {
+  return { id: row.id, takenAt: row.taken_at, hash: row.hash, compressed: row.compressed === 1, size: row.size };
+}
+
+/**
+ * Creates a store keeping everything in one SQLite database: snapshots, change events, validators,
+ * schema records, watch health, outboxes, dead letters, AI results and every delivery attempt.
+ * Writes of a check happen in a transaction, so a crash never leaves a state without its validators.
+ * @param dbPath The database file, created if missing. ":memory:" for a throwaway database.
+ * @param retention Snapshot retention and compression. Defaults to the SNAPSHOT_* settings.
+ */
+export function createSqliteStore(dbPath: string, retention: RetentionOptions = config.snapshots): StateStore {
+  if (dbPath !== ':memory:') fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+  const db = new Database(dbPath);
+  db.pragma('journal_mode = WAL'); // Readers (e.g. ad-hoc queries) do not block the writer
+  db.exec(SCHEMA);
+
+  // States stored by the file store before switching to SQLite
+  const fileStore = createFileStore();
+
+  const statements = {
+    listSnapshots: db.prepare<[string], SnapshotRow>(
+      'SELECT id, taken_at, hash, compressed, length(data) AS size FROM snapshots WHERE state_key = ? ORDER BY rowid'
+    ),
+    latestSnapshot: db.prepare<[string], SnapshotRow>(
+      'SELECT id, taken_at, hash, compressed, length(data) AS size FROM snapshots WHERE state_key = ? ORDER BY rowid DESC LIMIT 1'
+    ),
+    snapshotData: db.prepare<[string, string], { data: Buffer; compressed: number }>(
+      'SELECT data, compressed FROM snapshots WHERE state_key = ? AND id = ?'
+    ),
+    insertSnapshot: db.prepare(
+      'INSERT INTO snapshots (state_key, id, taken_at, hash, compressed, data) VALUES (?, ?, ?, ?, ?, ?)'
+    ),
+    deleteSnapshot: db.prepare('DELETE FROM snapshots WHERE state_key = ? AND id = ?'),
+    insertChangeEvent: db.prepare(
+      'INSERT INTO change_events (state_key, snapshot_id, detected_at, changes) VALUES (?, ?, ?, ?)'
+    ),
+    readValidators: db.prepare<[string], { etag: string | null; last_modified: string | null }>(
+      'SELECT etag, last_modified FROM validators WHERE state_key = ?'
+    ),
+    upsertValidators: db.prepare(
+      'INSERT INTO validators (state_key, etag, last_modified) VALUES (?, ?, ?) ON CONFLICT (state_key) DO UPDATE SET etag = excluded.etag, last_modified = excluded.last_modified'
+    ),
+    deleteValidators: db.prepare('DELETE FROM validators WHERE state_key = ?'),
+    readSchemaRecord: db.prepare<[string], { record: string }>('SELECT record FROM schema_records WHERE state_key = ?'),
+    upsertSchemaRecord: db.prepare(
+      'INSERT INTO schema_records (state_key, record) VALUES (?, ?) ON CONFLICT (state_key) DO UPDATE SET record = excluded.record'
+    ),
+    readHealth: db.prepare<[string], { health: string }>('SELECT health FROM watch_health WHERE state_key = ?'),
+    upsertHealth: db.prepare(
+      'INSERT INTO watch_health (state_key, health) VALUES (?, ?) ON CONFLICT (state_key) DO UPDATE SET health = excluded.health'
+    ),
+    deleteHealth: db.prepare('DELETE FROM watch_health WHERE state_key = ?'),
+    readOutbox: db.prepare<[string], { outbox: string }>('SELECT outbox FROM outboxes WHERE state_key = ?'),
+    upsertOutbox: db.prepare(
+      'INSERT INTO outboxes (state_key, outbox) VALUES (?, ?) ON CONFLICT (state_key) DO UPDATE SET outbox = excluded.outbox'
+    ),
+    deleteOutbox: db.prepare('DELETE FROM outboxes WHERE state_key = ?'),
+    insertDeadLetter: db.prepare(
+      'INSERT INTO dead_letters (state_key, channel, reason, dead_lettered_at, entry) VALUES (?, ?, ?, ?, ?)'
+    ),
+    insertSummary: db.prepare(
+      'INSERT INTO ai_results (watch_id, created_at, change_count, is_worth_to_report, reported_changes) VALUES (?, ?, ?, ?, ?)'
+    ),
+    insertDelivery: db.prepare(
+      'INSERT INTO delivery_attempts (watch_id, channel, kind, attempt, ok, error, attempted_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ),
+  };
+
+  function readSnapshot<T>(stateFilePath: string, id: string): T | null {
+    const row = statements.snapshotData.get(stateFilePath, id);
+    if (!row) return null;
+    const json = row.compressed === 1 ? zlib.gunzipSync(row.data) : row.data;
+    return JSON.parse(json.toString('utf-8')) as T;
+  }
+
+  function writeValidators(stateFilePath: string, validators: HttpValidators = {}) {
+    if (validators.etag || validators.lastModified) {
+      statements.upsertValidators.run(stateFilePath, validators.etag ?? null, validators.lastModified ?? null);
+    } else {
+      statements.deleteValidators.run(stateFilePath);
+    }
+  }
+
+  const writeState = db.transaction(
+    (stateFilePath: string, state: unknown, changes: DiffOperation[] | undefined, validators: HttpValidators | undefined) => {
+      const hash = hashState(state);
+      let snapshotId = statements.latestSnapshot.get(stateFilePath)?.id;
+      if (!snapshotId?.endsWith(`-${hash}`)) {
+        const takenAt = new Date().toISOString();
+        snapshotId = getSnapshotId(takenAt, hash);
+        const json = Buffer.from(JSON.stringify(state), 'utf-8');
+        const data = retention.compress ? zlib.gzipSync(json) : json;
+        statements.insertSnapshot.run(stateFilePath, snapshotId, takenAt, hash, retention.compress ? 1 : 0, data);
+
+        const snapshots = statements.listSnapshots.all(stateFilePath).map(toSnapshotInfo);
+        for (const expired of selectExpiredSnapshots(snapshots, retention, Date.now())) {
+          statements.deleteSnapshot.run(stateFilePath, expired.id);
+        }
+      }
+      if (changes && changes.length > 0) {
+        statements.insertChangeEvent.run(stateFilePath, snapshotId, new Date().toISOString(), JSON.stringify(changes));
+      }
+      writeValidators(stateFilePath, validators);
+      return snapshotId;
+    }
+  );
+
+  const appendDeadLetters = db.transaction((stateFilePath: string, entries: DeadLetterEntry[]) => {
+    for (const entry of entries) {
+      statements.insertDeadLetter.run(stateFilePath, entry.channel, entry.reason, entry.deadLetteredAt, JSON.stringify(entry));
+    }
+  });
+
+  return {
+    async readLastState<T>(stateFilePath: string): Promise<T | null> {
+      const latest = statements.latestSnapshot.get(stateFilePath);
+      if (latest) return readSnapshot<T>(stateFilePath, latest.id);
+      return fileStore.readLastState<T>(stateFilePath);
+    },
+
+    async writeState(stateFilePath, state, changes, validators): Promise<void> {
+      const snapshotId = writeState(stateFilePath, state, changes, validators);
+      logger.info(`State successfully stored as snapshot ${snapshotId}`);
+    },
+
+    async readValidators(stateFilePath: string): Promise<HttpValidators> {
+      const row = statements.readValidators.get(stateFilePath);
+      return { etag: row?.etag ?? undefined, lastModified: row?.last_modified ?? undefined };
+    },
+
+    async writeValidators(stateFilePath: string, validators?: HttpValidators): Promise<void> {
+      writeValidators(stateFilePath, validators);
+    },
+
+    async listSnapshots(stateFilePath: string): Promise<SnapshotInfo[]> {
+      return statements.listSnapshots.all(stateFilePath).map(toSnapshotInfo);
+    },
+
+    async loadSnapshot<T>(stateFilePath: string, id: string): Promise<T> {
+      const state = readSnapshot<T>(stateFilePath, id);
+      if (state === null) throw new Error(`Snapshot ${id} not found for ${stateFilePath}`);
+      return state;
+    },
+
+    async readSchemaRecord(stateFilePath: string): Promise<SchemaRecord> {
+      const row = statements.readSchemaRecord.get(stateFilePath);
+      return row ? (JSON.parse(row.record) as SchemaRecord) : { violations: [] };
+    },
+
+    async writeSchemaRecord(stateFilePath: string, record: SchemaRecord): Promise<void> {
+      statements.upsertSchemaRecord.run(stateFilePath, JSON.stringify(record));
+    },
+
+    async readHealth(stateFilePath: string): Promise<WatchHealth | null> {
+      const row = statements.readHealth.get(stateFilePath);
+      return row ? (JSON.parse(row.health) as WatchHealth) : null;
+    },
+
+    async writeHealth(stateFilePath: string, health: WatchHealth | null): Promise<void> {
+      if (health) {
+        statements.upsertHealth.run(stateFilePath, JSON.stringify(health));
+      } else {
+        statements.deleteHealth.run(stateFilePath);
+      }
+    },
+
+    async readOutbox(stateFilePath: string): Promise<Outbox | null> {
+      const row = statements.readOutbox.get(stateFilePath);
+      return row ? (JSON.parse(row.outbox) as Outbox) : null;
+    },
+
+    async writeOutbox(stateFilePath: string, outbox: Outbox): Promise<void> {
+      statements.upsertOutbox.run(stateFilePath, JSON.stringify(outbox));
+    },
+
+    async deleteOutbox(stateFilePath: string): Promise<void> {
+      statements.deleteOutbox.run(stateFilePath);
+    },
+
+    async appendDeadLetters(stateFilePath: string, entries: DeadLetterEntry[]): Promise<void> {
+      appendDeadLetters(stateFilePath, entries);
+    },
+
+    async recordDelivery(attempt: DeliveryAttempt): Promise<void> {
+      statements.insertDelivery.run(
+        attempt.watchId,
+        attempt.channel,
+        attempt.kind,
+        attempt.attempt,
+        attempt.ok ? 1 : 0,
+        attempt.error ?? null,
+        attempt.attemptedAt
+      );
+    },
+
+    async recordSummary(record: SummaryRecord): Promise<void> {
+      statements.insertSummary.run(
+        record.watchId,
+        record.createdAt,
+        record.changeCount,
+        record.isWorthToReport ? 1 : 0,
+        record.reportedChanges
+      );
+    },
+
+    close(): void {
+      db.close();
+    },
+  };
+}
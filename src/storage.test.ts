@@ -1,6 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { readLastState, writeState } from './storage.js';
+import {
+  getChangesFilePath,
+  getDeadLetterFilePath,
+  getMetaFilePath,
+  getOutboxFilePath,
+  readLastState,
+  readValidators,
+  writeState,
+} from './storage.js';
 import * as configModule from './config.js'; // Import like this for mocking
+import { loadLatestSnapshot, saveSnapshot } from './snapshots.js';
+import { writeFileAtomic } from './atomicFile.js';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -17,6 +27,20 @@ vi.mock('./config.js', () => ({
   },
 }));
 
+// The snapshot store has its own tests; here it only needs to report "no snapshot yet"
+vi.mock('./snapshots.js', () => ({
+  listSnapshots: vi.fn(),
+  loadLatestSnapshot: vi.fn(),
+  loadSnapshot: vi.fn(),
+  saveSnapshot: vi.fn(),
+}));
+
+// Atomic writes have their own tests; here they only need to be observable
+vi.mock('./atomicFile.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./atomicFile.js')>()),
+  writeFileAtomic: vi.fn(),
+}));
+
 // Mock fs/promises, providing a default export
 vi.mock('fs/promises', () => ({
   // Add the default export containing the mocks
@@ -25,12 +49,14 @@ vi.mock('fs/promises', () => ({
     writeFile: vi.fn(),
     access: vi.fn(),
     mkdir: vi.fn(),
+    rm: vi.fn(),
   },
   // Also export named functions if needed by other imports (not strictly necessary here, but good practice)
   readFile: vi.fn(),
   writeFile: vi.fn(),
   access: vi.fn(),
   mkdir: vi.fn(),
+  rm: vi.fn(),
 }));
 
 // --- Test Suite ---
@@ -38,19 +64,38 @@ vi.mock('fs/promises', () => ({
 describe('storage', () => {
   // Access mocks via the default export
   const mockedReadFile = vi.mocked(fs.readFile);
-  const mockedWriteFile = vi.mocked(fs.writeFile);
+  const mockedWriteFileAtomic = vi.mocked(writeFileAtomic);
   const mockedAccess = vi.mocked(fs.access);
   const mockedMkdir = vi.mocked(fs.mkdir);
+  const mockedRm = vi.mocked(fs.rm);
+  const mockedLoadLatestSnapshot = vi.mocked(loadLatestSnapshot);
+  const mockedSaveSnapshot = vi.mocked(saveSnapshot);
 
   beforeEach(() => {
     // Reset mocks before each test
     vi.clearAllMocks();
     // Assume directory exists by default
     mockedAccess.mockResolvedValue(undefined);
+    mockedLoadLatestSnapshot.mockResolvedValue(null);
+    mockedSaveSnapshot.mockResolvedValue({
+      id: '2025-01-01T00-00-00-000Z-000000000000',
+      takenAt: '2025-01-01T00:00:00.000Z',
+      hash: '000000000000',
+      compressed: false,
+      size: 2,
+    });
   });
 
   describe('readLastState', () => {
-    it('should read and parse the state file if it exists', async () => {
+    it('should return the latest snapshot', async () => {
+      mockedLoadLatestSnapshot.mockResolvedValue({ key: 'snapshot' });
+
+      expect(await readLastState(MOCK_STATE_FILE_PATH)).toEqual({ key: 'snapshot' });
+      expect(mockedLoadLatestSnapshot).toHaveBeenCalledWith(MOCK_STATE_FILE_PATH, expect.any(Function));
+      expect(mockedReadFile).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to a state file written before snapshots existed', async () => {
       const mockData = { key: 'value', count: 123 };
       const mockJsonString = JSON.stringify(mockData);
       mockedReadFile.mockResolvedValue(mockJsonString);
@@ -115,22 +160,86 @@ describe('storage', () => {
     });
   });
 
+  describe('readValidators', () => {
+    it('should read the stored validators', async () => {
+      mockedReadFile.mockResolvedValue(JSON.stringify({ etag: '"v1"' }));
+      expect(await readValidators(MOCK_STATE_FILE_PATH)).toEqual({ etag: '"v1"', lastModified: undefined });
+      expect(mockedReadFile).toHaveBeenCalledWith('/tmp/test-lastState.meta.json', 'utf-8');
+    });
+
+    it('should return no validators if none were stored', async () => {
+      const error = new Error('File not found') as NodeJS.ErrnoException;
+      error.code = 'ENOENT';
+      mockedReadFile.mockRejectedValue(error);
+      expect(await readValidators(MOCK_STATE_FILE_PATH)).toEqual({});
+    });
+  });
+
+  describe('getChangesFilePath', () => {
+    it('should derive the change record path from the state file path', () => {
+      expect(getChangesFilePath('/data/feed.json')).toBe('/data/feed.changes.json');
+      expect(getChangesFilePath('/data/feed')).toBe('/data/feed.changes.json');
+    });
+
+    it('should derive the outbox and dead-letter paths the same way', () => {
+      expect(getOutboxFilePath('/data/feed.json')).toBe('/data/feed.outbox.json');
+      expect(getDeadLetterFilePath('/data/feed.json')).toBe('/data/feed.deadletter.json');
+      expect(getMetaFilePath('/data/feed.json')).toBe('/data/feed.meta.json');
+    });
+  });
+
   describe('writeState', () => {
-    it('should stringify and write the state to the file', async () => {
+    it('should store the state as a snapshot', async () => {
       const stateToWrite = { success: true, data: [1, 2] };
-      const expectedJsonString = JSON.stringify(stateToWrite, null, 2);
 
       await writeState(stateToWrite);
 
       expect(mockedAccess).toHaveBeenCalledWith(path.dirname(MOCK_STATE_FILE_PATH));
-      expect(mockedWriteFile).toHaveBeenCalledWith(
-        MOCK_STATE_FILE_PATH,
-        expectedJsonString,
-        'utf-8'
-      );
+      expect(mockedSaveSnapshot).toHaveBeenCalledWith(MOCK_STATE_FILE_PATH, stateToWrite);
+      expect(mockedWriteFileAtomic).not.toHaveBeenCalled();
       expect(mockedMkdir).not.toHaveBeenCalled();
     });
 
+    it('should record the change operations next to the state file', async () => {
+      const stateToWrite = { price: 12 };
+      const changes = [{ op: 'changed' as const, path: '/price', oldValue: 10, newValue: 12 }];
+
+      await writeState(stateToWrite, MOCK_STATE_FILE_PATH, changes);
+
+      expect(mockedWriteFileAtomic).toHaveBeenCalledTimes(1);
+      expect(mockedWriteFileAtomic).toHaveBeenLastCalledWith(
+        '/tmp/test-lastState.changes.json',
+        expect.any(String),
+        { backup: true }
+      );
+      const record = JSON.parse(mockedWriteFileAtomic.mock.calls[0][1] as string);
+      expect(record.changes).toEqual(changes);
+      expect(typeof record.detectedAt).toBe('string');
+    });
+
+    it('should not write a change record without changes', async () => {
+      await writeState({ price: 12 }, MOCK_STATE_FILE_PATH, []);
+      expect(mockedWriteFileAtomic).not.toHaveBeenCalled();
+    });
+
+    it('should store the HTTP validators after the state', async () => {
+      await writeState({ price: 12 }, MOCK_STATE_FILE_PATH, [], { etag: '"v2"', lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT' });
+
+      expect(mockedWriteFileAtomic).toHaveBeenCalledTimes(1);
+      expect(mockedSaveSnapshot.mock.invocationCallOrder[0]).toBeLessThan(mockedWriteFileAtomic.mock.invocationCallOrder[0]);
+      expect(mockedWriteFileAtomic).toHaveBeenLastCalledWith(
+        '/tmp/test-lastState.meta.json',
+        JSON.stringify({ etag: '"v2"', lastModified: 'Wed, 01 Jan 2025 00:00:00 GMT' }, null, 2),
+        { backup: true }
+      );
+    });
+
+    it('should remove stale validators when the state is written without any', async () => {
+      await writeState({ price: 12 });
+      expect(mockedRm).toHaveBeenCalledWith('/tmp/test-lastState.meta.json', { force: true });
+      expect(mockedRm).toHaveBeenCalledWith('/tmp/test-lastState.meta.json.bak', { force: true });
+    });
+
     it('should create the directory if it does not exist before writing', async () => {
        const dirError = new Error('Dir not found') as NodeJS.ErrnoException;
       dirError.code = 'ENOENT';
@@ -141,17 +250,17 @@ describe('storage', () => {
 
       expect(mockedAccess).toHaveBeenCalledWith(path.dirname(MOCK_STATE_FILE_PATH));
       expect(mockedMkdir).toHaveBeenCalledWith(path.dirname(MOCK_STATE_FILE_PATH), { recursive: true });
-      expect(mockedWriteFile).toHaveBeenCalled();
+      expect(mockedSaveSnapshot).toHaveBeenCalled();
     });
 
-    it('should re-throw writeFile errors', async () => {
+    it('should re-throw snapshot errors', async () => {
       const error = new Error('Write permission denied');
-      mockedWriteFile.mockRejectedValue(error);
+      mockedSaveSnapshot.mockRejectedValue(error);
       const stateToWrite = { error: 'test' };
 
       await expect(writeState(stateToWrite)).rejects.toThrow('Write permission denied');
       expect(mockedAccess).toHaveBeenCalled();
-      expect(mockedWriteFile).toHaveBeenCalled();
+      expect(mockedSaveSnapshot).toHaveBeenCalled();
       expect(mockedMkdir).not.toHaveBeenCalled();
     });
 
@@ -163,7 +272,7 @@ describe('storage', () => {
       await expect(writeState(stateToWrite)).rejects.toThrow('Access permission denied');
       expect(mockedAccess).toHaveBeenCalled();
       expect(mockedMkdir).not.toHaveBeenCalled();
-      expect(mockedWriteFile).not.toHaveBeenCalled();
+      expect(mockedSaveSnapshot).not.toHaveBeenCalled();
     });
   });
 }); 
\ No newline at end of file
@@ -1,46 +1,241 @@
-import fs from 'fs/promises';
-import path from 'path';
 import { config } from './config.js'; // Use .js extension for ESM
+import { type DiffOperation } from './comparer.js';
+import { type DeadLetterEntry, type Outbox } from './delivery.js';
+import { createFileStore } from './fileStore.js';
+import { type WatchHealth } from './health.js';
+import { logger } from './logger.js';
+import { type JsonSchema, type SchemaViolation } from './schema.js';
+import { type SnapshotInfo } from './snapshots.js';
+import { createSqliteStore } from './sqliteStore.js';
 
-// Ensure the directory for the state file exists
-async function ensureStateDirectoryExists() {
-  const dir = path.dirname(config.stateFilePath);
+export {
+  getChangesFilePath,
+  getDeadLetterFilePath,
+  getHealthFilePath,
+  getMetaFilePath,
+  getOutboxFilePath,
+  getSchemaFilePath,
+} from './fileStore.js';
+
+/**
+ * HTTP cache validators of the response a stored state came from.
+ */
+export interface HttpValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * What is remembered about the schema of a watch between checks.
+ */
+export interface SchemaRecord {
+  inferred?: JsonSchema; // Schema learned from the first snapshot, for watches with `schema: infer`
+  violations: SchemaViolation[]; // Violations already reported, so they are alerted once
+}
+
+/**
+ * One attempt to send a notification through a channel.
+ */
+export interface DeliveryAttempt {
+  watchId: string;
+  channel: string; // Id of the channel, e.g. "slack:3f2a9c1b0d4e"
+  kind: string; // Kind of the notification event
+  attempt: number; // 1 for the first try within a delivery
+  ok: boolean;
+  error?: string;
+  attemptedAt: string; // ISO 8601
+}
+
+/**
+ * The verdict of the rules and/or the AI on a set of changes.
+ */
+export interface SummaryRecord {
+  watchId: string;
+  changeCount: number;
+  isWorthToReport: boolean;
+  reportedChanges: string;
+  createdAt: string; // ISO 8601
+}
+
+/**
+ * Persistence of everything a watch remembers between checks. Watches are identified by their
+ * state file path, which only the file store uses as an actual location.
+ */
+export interface StateStore {
+  /** Returns the latest state of the watch, or null on the first run. */
+  readLastState<T>(stateFilePath: string): Promise<T | null>;
+  /** Stores a new state, the changes that led to it and the HTTP validators of its response. */
+  writeState(stateFilePath: string, state: unknown, changes?: DiffOperation[], validators?: HttpValidators): Promise<void>;
+  readValidators(stateFilePath: string): Promise<HttpValidators>;
+  /** Replaces the validators of the stored state; none removes them. */
+  writeValidators(stateFilePath: string, validators?: HttpValidators): Promise<void>;
+  /** Lists the stored states of the watch, oldest first. */
+  listSnapshots(stateFilePath: string): Promise<SnapshotInfo[]>;
+  /** Loads a stored state by id. Rejects if there is no such snapshot. */
+  loadSnapshot<T>(stateFilePath: string, id: string): Promise<T>;
+  readSchemaRecord(stateFilePath: string): Promise<SchemaRecord>;
+  writeSchemaRecord(stateFilePath: string, record: SchemaRecord): Promise<void>;
+  /** Returns the stored health of the watch, or null if it is healthy. */
+  readHealth(stateFilePath: string): Promise<WatchHealth | null>;
+  /** Stores the health of the watch; null removes it. */
+  writeHealth(stateFilePath: string, health: WatchHealth | null): Promise<void>;
+  readOutbox(stateFilePath: string): Promise<Outbox | null>;
+  writeOutbox(stateFilePath: string, outbox: Outbox): Promise<void>;
+  deleteOutbox(stateFilePath: string): Promise<void>;
+  appendDeadLetters(stateFilePath: string, entries: DeadLetterEntry[]): Promise<void>;
+  recordDelivery(attempt: DeliveryAttempt): Promise<void>;
+  recordSummary(record: SummaryRecord): Promise<void>;
+  close(): void;
+}
+
+let stateStore: StateStore | undefined;
+
+/**
+ * Returns the store selected by STATE_STORE, created on first use.
+ */
+export function getStateStore(): StateStore {
+  if (!stateStore) {
+    stateStore = config.stateStore === 'sqlite' ? createSqliteStore(config.stateDbPath) : createFileStore();
+  }
+  return stateStore;
+}
+
+/**
+ * Reads the last stored state, i.e. the latest snapshot of the watch. A state file written
+ * before snapshots were introduced is read if no snapshot exists yet.
+ * @param stateFilePath The state file of the watch. Defaults to STATE_FILE_PATH.
+ * @returns The parsed state, or null on the first run.
+ */
+export async function readLastState<T>(
+  stateFilePath: string = config.stateFilePath
+): Promise<T | null> {
   try {
-    await fs.access(dir);
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      console.log(`Creating directory for state file: ${dir}`);
-      await fs.mkdir(dir, { recursive: true });
-    } else {
-      throw error; // Re-throw unexpected errors
-    }
+    return await getStateStore().readLastState<T>(stateFilePath);
+  } catch (error) {
+    logger.error(`Error reading state file ${stateFilePath}.`, { error });
+    throw error; // Re-throw other errors
   }
 }
 
-export async function readLastState<T>(): Promise<T | null> {
+/**
+ * Reads the HTTP validators of the stored state.
+ * @param stateFilePath The state file of the watch. Defaults to STATE_FILE_PATH.
+ * @returns The validators, or an empty object if none were stored.
+ */
+export async function readValidators(
+  stateFilePath: string = config.stateFilePath
+): Promise<HttpValidators> {
+  return getStateStore().readValidators(stateFilePath);
+}
+
+/**
+ * Stores the HTTP validators of the stored state, or removes them if there are none.
+ * Must only be called once the state they belong to has been written.
+ * @param stateFilePath The state file of the watch.
+ * @param validators The ETag and Last-Modified of the response.
+ */
+export async function writeValidators(stateFilePath: string, validators: HttpValidators = {}): Promise<void> {
+  return getStateStore().writeValidators(stateFilePath, validators);
+}
+
+/**
+ * Lists the stored snapshots of a watch.
+ * @param stateFilePath The state file of the watch.
+ * @returns The snapshots, oldest first.
+ */
+export async function listSnapshots(stateFilePath: string): Promise<SnapshotInfo[]> {
+  return getStateStore().listSnapshots(stateFilePath);
+}
+
+/**
+ * Reads the schema record of a watch.
+ * @param stateFilePath The state file of the watch.
+ * @returns The record, or one without violations if none was stored.
+ */
+export async function readSchemaRecord(stateFilePath: string): Promise<SchemaRecord> {
+  return getStateStore().readSchemaRecord(stateFilePath);
+}
+
+/**
+ * Stores the schema record of a watch.
+ * @param stateFilePath The state file of the watch.
+ * @param record The inferred schema and the reported violations.
+ */
+export async function writeSchemaRecord(stateFilePath: string, record: SchemaRecord): Promise<void> {
+  return getStateStore().writeSchemaRecord(stateFilePath, record);
+}
+
+/**
+ * Reads the health of a watch stored by an earlier check.
+ * A failure is logged and treated as healthy, so it never fails the check.
+ * @param stateFilePath The state file of the watch.
+ * @returns The health, or null if the watch is healthy.
+ */
+export async function readHealth(stateFilePath: string): Promise<WatchHealth | null> {
   try {
-    await ensureStateDirectoryExists();
-    const data = await fs.readFile(config.stateFilePath, 'utf-8');
-    return JSON.parse(data) as T;
-  } catch (error: any) {
-    if (error.code === 'ENOENT') {
-      console.log('State file not found, assuming first run.');
-      return null; // File doesn't exist, return null
-    } else {
-      console.error(`Error reading state file ${config.stateFilePath}:`, error);
-      throw error; // Re-throw other errors
-    }
+    return await getStateStore().readHealth(stateFilePath);
+  } catch (error) {
+    logger.error('Error reading the health of the watch.', { error });
+    return null;
   }
 }
 
-export async function writeState<T>(state: T): Promise<void> {
+/**
+ * Stores the health of a watch for the next check, which may run in another process.
+ * A failure is logged but never fails the check.
+ * @param stateFilePath The state file of the watch.
+ * @param health The health after the check, or null if the watch is healthy.
+ */
+export async function writeHealth(stateFilePath: string, health: WatchHealth | null): Promise<void> {
   try {
-    await ensureStateDirectoryExists();
-    const data = JSON.stringify(state, null, 2); // Pretty print for readability
-    await fs.writeFile(config.stateFilePath, data, 'utf-8');
-    console.log(`State successfully written to ${config.stateFilePath}`);
+    await getStateStore().writeHealth(stateFilePath, health);
   } catch (error) {
-    console.error(`Error writing state file ${config.stateFilePath}:`, error);
+    logger.error('Error storing the health of the watch.', { error });
+  }
+}
+
+/**
+ * Persists the given state as a new snapshot of the watch.
+ * @param state The state to store.
+ * @param stateFilePath The state file of the watch. Defaults to STATE_FILE_PATH.
+ * @param changes The diff operations that led to this state, recorded along with it.
+ * @param validators The HTTP validators of the response the state came from. Validators of an
+ * earlier state are removed, so a conditional request can never skip a state that was not stored.
+ */
+export async function writeState<T>(
+  state: T,
+  stateFilePath: string = config.stateFilePath,
+  changes?: DiffOperation[],
+  validators?: HttpValidators
+): Promise<void> {
+  try {
+    await getStateStore().writeState(stateFilePath, state, changes, validators);
+  } catch (error) {
+    logger.error(`Error writing state file ${stateFilePath}.`, { error });
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Records the verdict on a set of changes, for history queries.
+ * A failure is logged but never fails the check.
+ */
+export async function recordSummary(record: SummaryRecord): Promise<void> {
+  try {
+    await getStateStore().recordSummary(record);
+  } catch (error) {
+    logger.error('Error recording the change summary.', { error });
+  }
+}
+
+/**
+ * Records an attempt to deliver a notification, for history queries.
+ * A failure is logged but never fails the delivery.
+ */
+export async function recordDelivery(attempt: DeliveryAttempt): Promise<void> {
+  try {
+    await getStateStore().recordDelivery(attempt);
+  } catch (error) {
+    logger.error('Error recording the delivery attempt.', { error });
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { cacheSummary, getCachedSummary, summaryCacheKey } from './summaryCache.js';
+import { type AiSettings } from './aiProvider.js';
+import { type ChangeSummaryResult } from './aiProcessor.js';
+
+describe('summaryCache', () => {
+  const ai: AiSettings = { provider: 'openai', model: 'gpt-4o-mini', apiKey: 'sk-test' };
+  const result: ChangeSummaryResult = {
+    isWorthToReport: true,
+    reportedChanges: 'Price went up.',
+    severity: 'minor',
+    title: 'Price increase',
+    highlights: [],
+    tags: [],
+  };
+
+  it('should key a diff by its canonical form, the model and the prompt context', () => {
+    const key = summaryCacheKey(
+      [
+        { op: 'changed', path: '/price', oldValue: 1, newValue: 2 },
+        { op: 'added', path: '/item', newValue: { id: 1, name: 'A' } },
+      ],
+      ai,
+      ''
+    );
+    // Neither the order of the operations nor the key order of their values matter
+    expect(summaryCacheKey(
+      [
+        { op: 'added', path: '/item', newValue: { name: 'A', id: 1 } },
+        { newValue: 2, oldValue: 1, path: '/price', op: 'changed' },
+      ],
+      ai,
+      ''
+    )).toBe(key);
+
+    const price = [{ op: 'changed' as const, path: '/price', oldValue: 1, newValue: 2 }];
+    expect(summaryCacheKey(price, ai, '')).not.toBe(key);
+    expect(summaryCacheKey(price, { ...ai, model: 'gpt-4o' }, '')).not.toBe(summaryCacheKey(price, ai, ''));
+    expect(summaryCacheKey(price, ai, 'Only prices')).not.toBe(summaryCacheKey(price, ai, ''));
+    // The API key does not change the summary
+    expect(summaryCacheKey(price, { ...ai, apiKey: 'sk-other' }, '')).toBe(summaryCacheKey(price, ai, ''));
+  });
+
+  it('should return cached summaries until their TTL expires', () => {
+    cacheSummary('a', result, 1000, 10_000);
+    expect(getCachedSummary('a', 10_999)).toEqual(result);
+    expect(getCachedSummary('a', 11_000)).toBeUndefined();
+    expect(getCachedSummary('a', 10_500)).toBeUndefined(); // Expired entries are removed
+  });
+
+  it('should not cache with a TTL of 0', () => {
+    cacheSummary('b', result, 0);
+    expect(getCachedSummary('b')).toBeUndefined();
+  });
+});
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import stringify from 'fast-json-stable-stringify';
+import { type DiffOperation } from './comparer.js';
+import { type AiSettings } from './aiProvider.js';
+import { type ChangeSummaryResult } from './aiProcessor.js';
+
+interface CacheEntry {
+  result: ChangeSummaryResult;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// The oldest entries are dropped beyond this many, so a long-running process stays bounded
+const MAX_ENTRIES = 1000;
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Hashes everything the summary of a diff depends on: the diff, the model and the prompt context.
+ * The operations are compared in canonical form, so the same diff gets the same key regardless of
+ * the order of its operations or of the keys in its values.
+ */
+export function summaryCacheKey(changes: DiffOperation[], ai: AiSettings, customContext: string): string {
+  const diff = changes.map((change) => stringify(change)).sort();
+  const key = stringify({ diff, provider: ai.provider, model: ai.model, baseUrl: ai.baseUrl ?? null, customContext });
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Returns the cached summary of a key, unless it has expired.
+ * @param now The current time, for tests.
+ */
+export function getCachedSummary(key: string, now = Date.now()): ChangeSummaryResult | undefined {
+  const entry = cache.get(key);
+  if (!entry) return undefined;
+  if (entry.expiresAt <= now) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry.result;
+}
+
+/**
+ * Caches a summary for `ttlMs` milliseconds. A TTL of 0 disables the cache.
+ * @param now The current time, for tests.
+ */
+export function cacheSummary(key: string, result: ChangeSummaryResult, ttlMs: number, now = Date.now()): void {
+  if (ttlMs <= 0) return;
+  cache.delete(key); // Re-inserted as the newest entry
+  cache.set(key, { result, expiresAt: now + ttlMs });
+  if (cache.size > MAX_ENTRIES) cache.delete(cache.keys().next().value!);
+}
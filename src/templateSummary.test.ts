@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { createTemplateSummary, describeChangeInWords, formatLocation } from './templateSummary.js';
+import { type DiffOperation } from './comparer.js';
+
+describe('templateSummary', () => {
+  it('should format JSON Pointer segments as a readable location', () => {
+    expect(formatLocation(['items', '3', 'price'])).toBe('items[3].price');
+    expect(formatLocation(['0', 'name'])).toBe('[0].name');
+  });
+
+  it('should describe every operation type with the field and its location', () => {
+    expect(describeChangeInWords({ op: 'changed', path: '/items/3/price', oldValue: 10, newValue: 12 }))
+      .toBe('price changed 10 → 12 at items[3]');
+    expect(describeChangeInWords({ op: 'changed', path: '/status', oldValue: 'open', newValue: 'closed' }))
+      .toBe('status changed "open" → "closed"');
+    expect(describeChangeInWords({ op: 'added', path: '/items/4', newValue: { id: 4 } })).toBe('items[4] added: {"id":4}');
+    expect(describeChangeInWords({ op: 'removed', path: '/meta/a~1b', oldValue: true })).toBe('a/b removed at meta (was true)');
+    expect(describeChangeInWords({ op: 'moved', path: '/items/0', from: '/items/2', oldValue: 1, newValue: 1 }))
+      .toBe('items[2] moved to items[0]');
+    expect(describeChangeInWords({ op: 'changed', path: '', oldValue: [], newValue: {} })).toBe('the document changed [] → {}');
+  });
+
+  it('should report every change and say that the summary is a fallback', () => {
+    const changes: DiffOperation[] = [
+      { op: 'changed', path: '/items/3/price', oldValue: 10, newValue: 12 },
+      { op: 'added', path: '/banner', newValue: 'Sale!' },
+      { op: 'removed', path: '/legacy', oldValue: 'x'.repeat(100) },
+    ];
+
+    expect(createTemplateSummary(changes, 'AI is disabled', { maxLines: 2, maxHighlights: 2 })).toEqual({
+      isWorthToReport: true,
+      reportedChanges:
+        'Summary generated from the diff without AI (AI is disabled):\n' +
+        '- price changed 10 → 12 at items[3]\n' +
+        '- banner added: "Sale!"\n' +
+        '…and 1 more change(s).',
+      severity: 'info',
+      title: '3 change(s) detected',
+      highlights: [
+        { path: '/items/3/price', before: '10', after: '12' },
+        { path: '/banner', before: undefined, after: '"Sale!"' },
+      ],
+      tags: ['fallback'],
+    });
+    expect(createTemplateSummary(changes.slice(2), 'AI is disabled').reportedChanges).toContain(`(was "${'x'.repeat(59)}…)`);
+  });
+});
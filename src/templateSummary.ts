@@ -0,0 +1,77 @@
+import { parseJsonPointer, type DiffOperation } from './comparer.js';
+import { type ChangeSummaryResult } from './aiProcessor.js';
+
+export interface TemplateSummaryOptions {
+  maxLines: number; // Changes listed in the summary before the rest is counted
+  maxHighlights: number;
+}
+
+const DEFAULT_OPTIONS: TemplateSummaryOptions = { maxLines: 20, maxHighlights: 5 };
+
+function formatValue(value: unknown, maxLength = 60): string {
+  const text = value === undefined ? 'nothing' : JSON.stringify(value);
+  return text.length > maxLength ? `${text.substring(0, maxLength)}…` : text;
+}
+
+/**
+ * Turns JSON Pointer segments into a readable location, e.g. `['items', '3', 'price']` into `items[3].price`.
+ */
+export function formatLocation(segments: string[]): string {
+  return segments
+    .map((segment, index) => (/^\d+$/.test(segment) ? `[${segment}]` : index === 0 ? segment : `.${segment}`))
+    .join('');
+}
+
+/**
+ * Describes a change in words, naming the field and where it is, e.g.
+ * `price changed 10 → 12 at items[3]`. Array elements are named by their position.
+ */
+export function describeChangeInWords(change: DiffOperation): string {
+  const segments = parseJsonPointer(change.path);
+  const field = segments[segments.length - 1];
+  let subject = segments.length === 0 ? 'the document' : formatLocation(segments);
+  let at = '';
+  // Nested fields are named with their parent as location, array elements by their full location
+  if (segments.length > 1 && !/^\d+$/.test(field)) {
+    subject = field;
+    at = ` at ${formatLocation(segments.slice(0, -1))}`;
+  }
+  switch (change.op) {
+    case 'added':
+      return `${subject} added${at}: ${formatValue(change.newValue)}`;
+    case 'removed':
+      return `${subject} removed${at} (was ${formatValue(change.oldValue)})`;
+    case 'changed':
+      return `${subject} changed ${formatValue(change.oldValue)} → ${formatValue(change.newValue)}${at}`;
+    case 'moved':
+      return `${formatLocation(parseJsonPointer(change.from ?? ''))} moved to ${subject}${at}`;
+  }
+}
+
+/**
+ * Summarizes changes from the diff alone, for when the AI is disabled or fails. Every change is
+ * reported, as the significance criteria cannot be evaluated without the AI.
+ * @param changes The diff changes detected.
+ * @param reason Why the AI was not used, shown at the top of the summary.
+ * @returns A summary in the shape of the AI's, saying that it is a fallback.
+ */
+export function createTemplateSummary(
+  changes: DiffOperation[],
+  reason: string,
+  options: TemplateSummaryOptions = DEFAULT_OPTIONS
+): ChangeSummaryResult {
+  const lines = changes.slice(0, options.maxLines).map((change) => `- ${describeChangeInWords(change)}`);
+  if (changes.length > options.maxLines) lines.push(`…and ${changes.length - options.maxLines} more change(s).`);
+  return {
+    isWorthToReport: true,
+    reportedChanges: `Summary generated from the diff without AI (${reason}):\n${lines.join('\n')}`,
+    severity: 'info',
+    title: `${changes.length} change(s) detected`,
+    highlights: changes.slice(0, options.maxHighlights).map((change) => ({
+      path: change.path,
+      before: change.op === 'added' ? undefined : JSON.stringify(change.oldValue),
+      after: change.op === 'removed' ? undefined : JSON.stringify(change.newValue),
+    })),
+    tags: ['fallback'],
+  };
+}